@@ -9,20 +9,21 @@ import {
 } from ":core/cipher/cipher";
 import { CryptoKey } from ":core/cipher/types";
 import { MWP_RESPONSE_PATH } from ":core/constants";
-import { standardErrors } from ":core/error";
-import { EncryptedData, RPCResponseMessage } from ":core/message";
+import { standardErrorCodes, standardErrors } from ":core/error";
+import {
+  EncryptedData,
+  RPCRequestMessage,
+  RPCResponseMessage,
+} from ":core/message";
 import { AppMetadata, RequestArguments } from ":core/provider/interface";
+import { RPCClient } from ":core/rpc/RPCClient";
+import { InMemoryStorage } from ":core/storage/InMemoryStorage";
 import { ScopedPreferencesStorage } from ":core/storage/ScopedPreferencesStorage";
-import { fetchRPCRequest } from ":core/util/utils";
+import { AddressString } from ":core/type";
 import { Wallets } from ":core/wallet";
 
-jest.mock(":core/util/utils", () => {
-  const actual = jest.requireActual(":core/util/utils");
-  return {
-    ...actual,
-    fetchRPCRequest: jest.fn(),
-  };
-});
+jest.mock(":core/rpc/RPCClient");
+const rpcRequest = RPCClient.prototype.request as jest.Mock;
 
 jest.mock("./components/communication/postRequestToWallet");
 
@@ -72,11 +73,16 @@ describe("MWPClient", () => {
   beforeEach(async () => {
     mockMetadata = {
       name: "test",
-      chainIds: [1],
+      chainIds: [1, 2],
       customScheme: "myapp://",
     };
 
-    (postRequestToWallet as jest.Mock).mockResolvedValue(mockSuccessResponse);
+    (postRequestToWallet as jest.Mock).mockImplementation(
+      async (request: RPCRequestMessage) => ({
+        ...mockSuccessResponse,
+        requestId: request.id,
+      }),
+    );
 
     mockKeyManager = new KeyManager({
       wallet: mockWallet,
@@ -103,11 +109,44 @@ describe("MWPClient", () => {
     expect(client["accounts"]).toEqual([]);
     expect(client["metadata"]).toEqual({
       name: "test",
-      chainIds: [1],
+      chainIds: [1, 2],
       customScheme: `myapp:///${MWP_RESPONSE_PATH}`,
     });
   });
 
+  it("should send requests through a custom transport", async () => {
+    const transport = {
+      send: jest.fn(async (request: RPCRequestMessage) => ({
+        ...mockSuccessResponse,
+        requestId: request.id,
+      })),
+    };
+    (exportKeyToHexString as jest.Mock).mockResolvedValueOnce("0xPublicKey");
+    const customClient = await MWPClient.createInstance({
+      metadata: mockMetadata,
+      wallet: mockWallet,
+      transport,
+    });
+    (decryptContent as jest.Mock).mockResolvedValueOnce({
+      result: {
+        value: ["0xAddress"],
+      },
+    });
+
+    await customClient.handshake();
+
+    expect(transport.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sender: "0xPublicKey",
+        content: {
+          handshake: expect.objectContaining({ method: "eth_requestAccounts" }),
+        },
+      }),
+      undefined,
+    );
+    expect(postRequestToWallet).not.toHaveBeenCalled();
+  });
+
   describe("handshake", () => {
     it("should perform a successful handshake", async () => {
       (decryptContent as jest.Mock).mockResolvedValueOnce({
@@ -135,10 +174,12 @@ describe("MWPClient", () => {
         { id: 1, rpcUrl: "https://eth-rpc.example.com/1" },
         { id: 2, rpcUrl: "https://eth-rpc.example.com/2" },
       ]);
-      expect(storageStoreSpy).toHaveBeenCalledWith(
-        "walletCapabilities",
-        mockCapabilities,
-      );
+      expect(storageStoreSpy).toHaveBeenCalledWith("walletCapabilities", {
+        "0xaddress": {
+          capabilities: mockCapabilities,
+          updatedAt: expect.any(Number),
+        },
+      });
       expect(storageStoreSpy).toHaveBeenCalledWith("accounts", ["0xAddress"]);
 
       expect(
@@ -146,6 +187,29 @@ describe("MWPClient", () => {
       ).resolves.toEqual(["0xAddress"]);
     });
 
+    it("should perform a fresh handshake once the session has expired", async () => {
+      client["accounts"] = ["0xAddress" as AddressString];
+      // no session until the handshake sets the peer public key
+      mockKeyManager.getSharedSecret
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null);
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: {
+          value: ["0xNewAddress"],
+        },
+      });
+
+      await expect(client.handshake()).resolves.toEqual(["0xNewAddress"]);
+      expect(postRequestToWallet).toHaveBeenCalledTimes(1);
+    });
+
+    it("should return the stored accounts while the session is valid", async () => {
+      client["accounts"] = ["0xAddress" as AddressString];
+
+      await expect(client.handshake()).resolves.toEqual(["0xAddress"]);
+      expect(postRequestToWallet).not.toHaveBeenCalled();
+    });
+
     it("should throw an error if failure in response.content", async () => {
       const mockResponse: RPCResponseMessage = {
         id: "1-2-3-4-5",
@@ -154,12 +218,292 @@ describe("MWPClient", () => {
         content: { failure: mockError },
         timestamp: new Date(),
       };
-      (postRequestToWallet as jest.Mock).mockResolvedValue(mockResponse);
+      (postRequestToWallet as jest.Mock).mockImplementation(
+        async (request: RPCRequestMessage) => ({
+          ...mockResponse,
+          requestId: request.id,
+        }),
+      );
 
       await expect(client.handshake()).rejects.toThrowError(mockError);
     });
   });
 
+  describe("response verification", () => {
+    it("should reject responses to another request", async () => {
+      (postRequestToWallet as jest.Mock).mockResolvedValueOnce(
+        mockSuccessResponse,
+      );
+
+      await expect(client.handshake()).rejects.toMatchObject({
+        code: standardErrorCodes.provider.malformedResponse,
+        message: "Response does not match the pending request",
+      });
+      expect(decryptContent).not.toHaveBeenCalled();
+    });
+
+    it("should reject replayed responses", async () => {
+      const loadObjectSpy = jest
+        .spyOn(ScopedPreferencesStorage.prototype, "loadObject")
+        .mockImplementation(async (key) =>
+          key === "consumedResponseIds" ? [mockSuccessResponse.id] : undefined,
+        );
+
+      await expect(client.handshake()).rejects.toMatchObject({
+        code: standardErrorCodes.provider.malformedResponse,
+        message: "Response has already been processed",
+      });
+      loadObjectSpy.mockRestore();
+    });
+
+    it("should remember consumed response ids", async () => {
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: {
+          value: ["0xAddress"],
+        },
+      });
+
+      await client.handshake();
+
+      expect(storageStoreSpy).toHaveBeenCalledWith("consumedResponseIds", [
+        mockSuccessResponse.id,
+      ]);
+    });
+
+    it("should reject responses created before the request", async () => {
+      (postRequestToWallet as jest.Mock).mockImplementationOnce(
+        async (request: RPCRequestMessage) => ({
+          ...mockSuccessResponse,
+          requestId: request.id,
+          timestamp: new Date(Date.now() - 60 * 60 * 1000),
+        }),
+      );
+
+      await expect(client.handshake()).rejects.toMatchObject({
+        code: standardErrorCodes.provider.malformedResponse,
+        message: "Response timestamp is outside the accepted window",
+      });
+    });
+  });
+
+  describe("stored state", () => {
+    let storage: InMemoryStorage;
+
+    beforeEach(() => {
+      storage = new InMemoryStorage(mockWallet.name, "MWPClient");
+    });
+
+    const createClientWithStorage = (onStorageReset?: jest.Mock) => {
+      (exportKeyToHexString as jest.Mock).mockResolvedValueOnce("0xPublicKey");
+      return MWPClient.createInstance({
+        metadata: mockMetadata,
+        wallet: mockWallet,
+        storage,
+        onStorageReset,
+      });
+    };
+
+    it("should stamp the schema version and load stored state", async () => {
+      await storage.storeObject("accounts", ["0xAddress"]);
+      await storage.storeObject("activeChain", { id: 2 });
+
+      const storedClient = await createClientWithStorage();
+
+      expect(await storage.loadObject("schemaVersion")).toBe(3);
+      expect(storedClient.getState()).toEqual({
+        accounts: ["0xAddress"],
+        chainId: 2,
+      });
+    });
+
+    it("should migrate capabilities stored without a timestamp", async () => {
+      await storage.storeObject("accounts", ["0xAddress"]);
+      await storage.storeObject("walletCapabilities", { "0x1": {} });
+
+      const storedClient = await createClientWithStorage();
+
+      expect(await storedClient.getCapabilitiesInfo()).toEqual({
+        updatedAt: 0,
+        isStale: true,
+      });
+    });
+
+    it("should keep the schema version across a reset", async () => {
+      const storedClient = await createClientWithStorage();
+      await storedClient.reset();
+      expect(await storage.loadObject("schemaVersion")).toBe(3);
+
+      const capabilities = { "0x1": { atomic: { status: "supported" } } };
+      await storage.storeObject("accounts", ["0xAddress"]);
+      await storage.storeObject("walletCapabilities", {
+        "0xaddress": { capabilities, updatedAt: Date.now() },
+      });
+      const relaunchedClient = await createClientWithStorage();
+
+      await expect(
+        relaunchedClient.request({ method: "wallet_getCapabilities" }),
+      ).resolves.toEqual(capabilities);
+    });
+
+    it("should reset when stored state cannot be parsed", async () => {
+      const onStorageReset = jest.fn();
+      await storage.storeObject("accounts", ["0xAddress"]);
+      await storage.setItem("activeChain", "{not json");
+
+      const storedClient = await createClientWithStorage(onStorageReset);
+
+      expect(onStorageReset).toHaveBeenCalledWith(expect.any(SyntaxError));
+      expect(mockKeyManager.clear).toHaveBeenCalled();
+      expect(storedClient.getState()).toEqual({ accounts: [], chainId: 1 });
+      expect(await storage.getItem("activeChain")).toBeNull();
+      expect(await storage.loadObject("schemaVersion")).toBe(3);
+    });
+
+    it("should reset when stored state has an unexpected shape", async () => {
+      const onStorageReset = jest.fn();
+      await storage.storeObject("activeChain", { chainId: "0x1" });
+
+      await createClientWithStorage(onStorageReset);
+
+      expect(onStorageReset).toHaveBeenCalledWith(
+        new Error("Stored client state has an unexpected shape"),
+      );
+    });
+
+    it("should reset when stored state is from a newer schema", async () => {
+      const onStorageReset = jest.fn();
+      await storage.storeObject("schemaVersion", 99);
+
+      await createClientWithStorage(onStorageReset);
+
+      expect(onStorageReset).toHaveBeenCalled();
+      expect(await storage.loadObject("schemaVersion")).toBe(3);
+    });
+  });
+
+  describe("pending request recovery", () => {
+    const createClientWithLaunchResponse = async (
+      pendingRequests: unknown[],
+      launchResponse: RPCResponseMessage | null,
+    ) => {
+      jest
+        .spyOn(ScopedPreferencesStorage.prototype, "loadObject")
+        .mockImplementation(async (key) =>
+          key === "pendingRequests" ? pendingRequests : undefined,
+        );
+      (exportKeyToHexString as jest.Mock).mockResolvedValueOnce("0xPublicKey");
+      const instance = await MWPClient.createInstance({
+        metadata: mockMetadata,
+        wallet: mockWallet,
+        transport: {
+          send: jest.fn(),
+          getLaunchResponse: jest.fn().mockResolvedValue(launchResponse),
+        },
+      });
+      jest
+        .spyOn(ScopedPreferencesStorage.prototype, "loadObject")
+        .mockRestore();
+      return instance;
+    };
+
+    it("should persist requests while the wallet has them", async () => {
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: {
+          value: ["0xAddress"],
+        },
+      });
+
+      await client.handshake();
+
+      expect(storageStoreSpy).toHaveBeenCalledWith("pendingRequests", [
+        {
+          id: expect.any(String),
+          method: "eth_requestAccounts",
+          timestamp: expect.any(Number),
+        },
+      ]);
+      expect(storageStoreSpy).toHaveBeenCalledWith("pendingRequests", []);
+    });
+
+    it("should recover the response the app was launched with", async () => {
+      const removeItemSpy = jest.spyOn(
+        ScopedPreferencesStorage.prototype,
+        "removeItem",
+      );
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: {
+          value: "0xSignature",
+        },
+      });
+
+      const recoveredClient = await createClientWithLaunchResponse(
+        [{ id: "1-2-3-4-5", method: "personal_sign", timestamp: Date.now() }],
+        mockSuccessResponse,
+      );
+
+      expect(recoveredClient.getRecoveredResponses()).toEqual([
+        {
+          requestId: "1-2-3-4-5",
+          method: "personal_sign",
+          result: { value: "0xSignature" },
+        },
+      ]);
+      expect(removeItemSpy).toHaveBeenCalledWith("pendingRequests");
+    });
+
+    it("should complete a recovered handshake", async () => {
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: {
+          value: ["0xAddress"],
+        },
+      });
+
+      const recoveredClient = await createClientWithLaunchResponse(
+        [
+          {
+            id: "1-2-3-4-5",
+            method: "eth_requestAccounts",
+            timestamp: Date.now(),
+          },
+        ],
+        mockSuccessResponse,
+      );
+
+      expect(mockKeyManager.setPeerPublicKey).toHaveBeenCalledWith(
+        mockCryptoKey,
+      );
+      expect(storageStoreSpy).toHaveBeenCalledWith("accounts", ["0xAddress"]);
+      expect(recoveredClient.getRecoveredResponses()).toEqual([
+        expect.objectContaining({ result: { value: ["0xAddress"] } }),
+      ]);
+    });
+
+    it("should recover wallet errors as serialized errors", async () => {
+      const recoveredClient = await createClientWithLaunchResponse(
+        [{ id: "1-2-3-4-5", method: "personal_sign", timestamp: Date.now() }],
+        { ...mockSuccessResponse, content: { failure: mockError } },
+      );
+
+      expect(recoveredClient.getRecoveredResponses()).toEqual([
+        expect.objectContaining({
+          result: {
+            error: expect.objectContaining({ code: mockError.code }),
+          },
+        }),
+      ]);
+    });
+
+    it("should ignore launch responses to unknown requests", async () => {
+      const recoveredClient = await createClientWithLaunchResponse(
+        [{ id: "other", method: "personal_sign", timestamp: Date.now() }],
+        mockSuccessResponse,
+      );
+
+      expect(recoveredClient.getRecoveredResponses()).toEqual([]);
+      expect(decryptContent).not.toHaveBeenCalled();
+    });
+  });
+
   describe("request", () => {
     beforeAll(() => {
       jest
@@ -204,6 +548,7 @@ describe("MWPClient", () => {
         }),
         `${mockMetadata.customScheme}/${MWP_RESPONSE_PATH}`,
         mockWallet,
+        undefined,
       );
       expect(result).toEqual("0xSignature");
     });
@@ -244,6 +589,7 @@ describe("MWPClient", () => {
         }),
         `${mockMetadata.customScheme}/${MWP_RESPONSE_PATH}`,
         mockWallet,
+        undefined,
       );
     });
 
@@ -260,12 +606,298 @@ describe("MWPClient", () => {
 
       await client.request(mockRequest);
 
-      expect(fetchRPCRequest).toHaveBeenCalledWith(
+      expect(rpcRequest).toHaveBeenCalledWith(
         mockRequest,
         "https://eth-rpc.example.com/1",
       );
     });
 
+    describe("call bundles", () => {
+      const pending = { id: "0xBundle", status: 100 };
+      const confirmed = {
+        id: "0xBundle",
+        status: 200,
+        receipts: [{ status: "0x1", transactionHash: "0xHash" }],
+      };
+
+      it("should get call status from the wallet's RPC endpoint", async () => {
+        const overridingClient = await MWPClient.createInstance({
+          metadata: mockMetadata,
+          wallet: mockWallet,
+          rpcUrls: { 1: "https://override.example.com" },
+        });
+        const mockRequest = {
+          method: "wallet_getCallsStatus",
+          params: ["0xBundle"],
+        };
+        rpcRequest.mockResolvedValueOnce(confirmed);
+
+        await expect(overridingClient.request(mockRequest)).resolves.toEqual(
+          confirmed,
+        );
+        expect(rpcRequest).toHaveBeenCalledWith(
+          mockRequest,
+          "https://eth-rpc.example.com/1",
+        );
+      });
+
+      it("should ask the wallet for call status without its RPC endpoint", async () => {
+        client["chain"] = { id: 1 };
+        (decryptContent as jest.Mock).mockResolvedValueOnce({
+          result: { value: confirmed },
+        });
+
+        await expect(
+          client.request({
+            method: "wallet_getCallsStatus",
+            params: ["0xBundle"],
+          }),
+        ).resolves.toEqual(confirmed);
+        expect(postRequestToWallet).toHaveBeenCalled();
+        expect(rpcRequest).not.toHaveBeenCalled();
+      });
+
+      it("should wait until the calls are confirmed", async () => {
+        rpcRequest
+          .mockResolvedValueOnce(pending)
+          .mockResolvedValueOnce(pending)
+          .mockResolvedValueOnce(confirmed);
+
+        await expect(
+          client.waitForCallsStatus("0xBundle", { intervalMs: 1 }),
+        ).resolves.toEqual(confirmed);
+        expect(rpcRequest).toHaveBeenCalledTimes(3);
+        expect(rpcRequest).toHaveBeenCalledWith(
+          { method: "wallet_getCallsStatus", params: ["0xBundle"] },
+          "https://eth-rpc.example.com/1",
+        );
+      });
+
+      it("should not poll the wallet without its RPC endpoint", async () => {
+        client["chain"] = { id: 1 };
+
+        await expect(
+          client.waitForCallsStatus("0xBundle"),
+        ).rejects.toMatchObject({
+          code: standardErrorCodes.rpc.resourceUnavailable,
+        });
+        expect(postRequestToWallet).not.toHaveBeenCalled();
+      });
+
+      it("should treat legacy confirmed statuses as final", async () => {
+        rpcRequest.mockResolvedValueOnce({ status: "CONFIRMED", receipts: [] });
+
+        await expect(client.waitForCallsStatus("0xBundle")).resolves.toEqual({
+          status: "CONFIRMED",
+          receipts: [],
+        });
+      });
+
+      it("should stop waiting after the timeout", async () => {
+        rpcRequest.mockResolvedValue(pending);
+
+        await expect(
+          client.waitForCallsStatus("0xBundle", {
+            intervalMs: 1,
+            timeoutMs: 0,
+          }),
+        ).rejects.toMatchObject({
+          code: standardErrorCodes.provider.walletTimeout,
+        });
+      });
+
+      it("should stop waiting when cancelled", async () => {
+        rpcRequest.mockResolvedValue(pending);
+        const controller = new AbortController();
+
+        const status = client.waitForCallsStatus("0xBundle", {
+          intervalMs: 60_000,
+          signal: controller.signal,
+        });
+        setTimeout(() => controller.abort(), 0);
+
+        await expect(status).rejects.toMatchObject({
+          code: standardErrorCodes.provider.requestCancelled,
+        });
+      });
+    });
+
+    describe("middleware", () => {
+      it("should let middleware block requests", async () => {
+        const blockingClient = await MWPClient.createInstance({
+          metadata: mockMetadata,
+          wallet: mockWallet,
+          middleware: [
+            async (request, next) => {
+              if (request.method === "eth_sendTransaction") {
+                throw standardErrors.provider.unsupportedMethod();
+              }
+              return next();
+            },
+          ],
+        });
+
+        await expect(
+          blockingClient.request({ method: "eth_sendTransaction", params: [] }),
+        ).rejects.toMatchObject({
+          code: standardErrorCodes.provider.unsupportedMethod,
+        });
+        expect(postRequestToWallet).not.toHaveBeenCalled();
+      });
+
+      it("should add and remove middleware", async () => {
+        const removeMiddleware = client.use(async (request, next) =>
+          request.method === "app_version" ? "1.0.0" : next(),
+        );
+
+        await expect(client.request({ method: "app_version" })).resolves.toBe(
+          "1.0.0",
+        );
+        expect(rpcRequest).not.toHaveBeenCalled();
+
+        removeMiddleware();
+        await client.request({ method: "app_version" });
+        expect(rpcRequest).toHaveBeenCalledTimes(1);
+      });
+
+      it("should run middleware for the handshake", async () => {
+        const middleware = jest.fn(async (_request, next) => next());
+        client.use(middleware);
+
+        await expect(client.handshake()).resolves.toEqual(["0xAddress"]);
+        expect(middleware).toHaveBeenCalledWith(
+          { method: "eth_requestAccounts" },
+          expect.any(Function),
+          undefined,
+        );
+      });
+    });
+
+    describe("response cache", () => {
+      const mockRequest: RequestArguments = {
+        method: "eth_call",
+        params: [{ to: "0xContract", data: "0x1234" }, "0x10"],
+      };
+
+      it("should answer idempotent requests from the cache", async () => {
+        const cachingClient = await MWPClient.createInstance({
+          metadata: mockMetadata,
+          wallet: mockWallet,
+          cache: { storage: new InMemoryStorage("cache-test") },
+        });
+        rpcRequest.mockResolvedValueOnce("0xResult");
+
+        await expect(cachingClient.request(mockRequest)).resolves.toBe(
+          "0xResult",
+        );
+        await expect(cachingClient.request(mockRequest)).resolves.toBe(
+          "0xResult",
+        );
+        expect(rpcRequest).toHaveBeenCalledTimes(1);
+      });
+
+      it("should not cache unless enabled", async () => {
+        rpcRequest.mockResolvedValue("0xResult");
+
+        await client.request(mockRequest);
+        await client.request(mockRequest);
+
+        expect(rpcRequest).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe("RPC endpoints", () => {
+      const mockRequest: RequestArguments = {
+        method: "eth_blockNumber",
+        params: [],
+      };
+
+      it("should pass RPC options to its RPC client", async () => {
+        await MWPClient.createInstance({
+          metadata: mockMetadata,
+          wallet: mockWallet,
+          rpc: { retries: 0, timeoutMs: 1000 },
+        });
+
+        expect(RPCClient).toHaveBeenLastCalledWith({
+          retries: 0,
+          timeoutMs: 1000,
+        });
+      });
+
+      it("should try configured endpoints before the wallet's", async () => {
+        const rpcClient = await MWPClient.createInstance({
+          metadata: mockMetadata,
+          wallet: mockWallet,
+          rpcUrls: { 1: "https://override.example.com" },
+        });
+        rpcRequest.mockResolvedValueOnce("0x1");
+
+        await expect(rpcClient.request(mockRequest)).resolves.toBe("0x1");
+        expect(rpcRequest).toHaveBeenCalledTimes(1);
+        expect(rpcRequest).toHaveBeenCalledWith(
+          mockRequest,
+          "https://override.example.com",
+        );
+      });
+
+      it("should try configured endpoints after the wallet's as a fallback", async () => {
+        const rpcClient = await MWPClient.createInstance({
+          metadata: mockMetadata,
+          wallet: mockWallet,
+          rpcUrls: { 1: "https://fallback.example.com" },
+          rpcUrlPriority: "fallback",
+        });
+        rpcRequest
+          .mockRejectedValueOnce(standardErrors.rpc.resourceUnavailable())
+          .mockResolvedValueOnce("0x1");
+
+        await expect(rpcClient.request(mockRequest)).resolves.toBe("0x1");
+        expect(rpcRequest).toHaveBeenNthCalledWith(
+          1,
+          mockRequest,
+          "https://eth-rpc.example.com/1",
+        );
+        expect(rpcRequest).toHaveBeenNthCalledWith(
+          2,
+          mockRequest,
+          "https://fallback.example.com",
+        );
+      });
+
+      it("should fail over to the next endpoint when one is unavailable", async () => {
+        const rpcClient = await MWPClient.createInstance({
+          metadata: mockMetadata,
+          wallet: mockWallet,
+          rpcUrls: {
+            1: ["https://a.example.com", "https://b.example.com"],
+          },
+        });
+        rpcRequest
+          .mockRejectedValueOnce(standardErrors.rpc.resourceUnavailable())
+          .mockRejectedValueOnce(standardErrors.rpc.resourceUnavailable())
+          .mockRejectedValueOnce(standardErrors.rpc.resourceUnavailable());
+
+        await expect(rpcClient.request(mockRequest)).rejects.toMatchObject({
+          code: standardErrorCodes.rpc.resourceUnavailable,
+        });
+        expect(rpcRequest).toHaveBeenCalledTimes(3);
+      });
+
+      it("should not fail over on JSON-RPC errors", async () => {
+        const rpcClient = await MWPClient.createInstance({
+          metadata: mockMetadata,
+          wallet: mockWallet,
+          rpcUrls: { 1: "https://override.example.com" },
+        });
+        const rpcError = { code: 3, message: "execution reverted" };
+        rpcRequest.mockRejectedValueOnce(rpcError);
+
+        await expect(rpcClient.request(mockRequest)).rejects.toBe(rpcError);
+        expect(rpcRequest).toHaveBeenCalledTimes(1);
+      });
+    });
+
     it("should throw an error if error in decrypted response", async () => {
       const mockRequest: RequestArguments = {
         method: "personal_sign",
@@ -281,6 +913,76 @@ describe("MWPClient", () => {
       await expect(client.request(mockRequest)).rejects.toThrowError(mockError);
     });
 
+    it("should send concurrent requests to the wallet one at a time", async () => {
+      let respond: () => void = () => {};
+      (postRequestToWallet as jest.Mock).mockImplementationOnce(
+        (request: RPCRequestMessage) =>
+          new Promise((resolve) => {
+            respond = () =>
+              resolve({ ...mockSuccessResponse, requestId: request.id });
+          }),
+      );
+      (exportKeyToHexString as jest.Mock).mockResolvedValue("0xPublicKey");
+      (encryptContent as jest.Mock).mockResolvedValue(encryptedData);
+      (decryptContent as jest.Mock)
+        .mockResolvedValueOnce({ result: { value: "0xSignature" } })
+        .mockResolvedValueOnce({ result: { value: "0xHash" } });
+
+      const signature = client.request({
+        method: "personal_sign",
+        params: ["0xMessage", "0xAddress"],
+      });
+      const hash = client.request({
+        method: "eth_sendTransaction",
+        params: [{}],
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(postRequestToWallet).toHaveBeenCalledTimes(1);
+      expect(client.getQueueState()).toEqual({
+        requests: [
+          { method: "personal_sign", inProgress: true },
+          { method: "eth_sendTransaction", inProgress: false },
+        ],
+      });
+
+      respond();
+
+      await expect(signature).resolves.toEqual("0xSignature");
+      await expect(hash).resolves.toEqual("0xHash");
+      expect(postRequestToWallet).toHaveBeenCalledTimes(2);
+    });
+
+    it("should notify queue state listeners until unsubscribed", async () => {
+      const listener = jest.fn();
+      const unsubscribe = client.onQueueStateChange(listener);
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: { value: "0xSignature" },
+      });
+
+      await client.request({
+        method: "personal_sign",
+        params: ["0xMessage", "0xAddress"],
+      });
+
+      expect(listener).toHaveBeenCalledWith({
+        requests: [{ method: "personal_sign", inProgress: true }],
+      });
+      expect(listener).toHaveBeenLastCalledWith({ requests: [] });
+
+      listener.mockClear();
+      unsubscribe();
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: { value: "0xSignature" },
+      });
+      await client.request({
+        method: "personal_sign",
+        params: ["0xMessage", "0xAddress"],
+      });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
     it("should update internal state for successful wallet_switchEthereumChain", async () => {
       const mockRequest: RequestArguments = {
         method: "wallet_switchEthereumChain",
@@ -303,10 +1005,538 @@ describe("MWPClient", () => {
         { id: 1, rpcUrl: "https://eth-rpc.example.com/1" },
         { id: 2, rpcUrl: "https://eth-rpc.example.com/2" },
       ]);
-      expect(storageStoreSpy).toHaveBeenCalledWith(
-        "walletCapabilities",
-        mockCapabilities,
+      expect(storageStoreSpy).toHaveBeenCalledWith("walletCapabilities", {
+        "0xaddress": {
+          capabilities: mockCapabilities,
+          updatedAt: expect.any(Number),
+        },
+      });
+    });
+  });
+
+  describe("chain switching", () => {
+    let storage: InMemoryStorage;
+    let chainClient: MWPClient;
+
+    beforeEach(async () => {
+      storage = new InMemoryStorage("chain-test");
+      await storage.storeObject("schemaVersion", 3);
+      await storage.storeObject("accounts", ["0xAddress"]);
+      await storage.storeObject("availableChains", [
+        { id: 1, rpcUrl: "https://eth-rpc.example.com/1" },
+      ]);
+      chainClient = await MWPClient.createInstance({
+        metadata: { ...mockMetadata, chainIds: [1, 10] },
+        wallet: mockWallet,
+        storage,
+      });
+    });
+
+    it("should reject chains unknown to the wallet and the app", async () => {
+      chainClient = await MWPClient.createInstance({
+        metadata: { ...mockMetadata, chainIds: undefined },
+        wallet: mockWallet,
+        storage,
+      });
+
+      await expect(
+        chainClient.request({
+          method: "wallet_switchEthereumChain",
+          params: [{ chainId: "0x5" }],
+        }),
+      ).rejects.toMatchObject({
+        code: standardErrorCodes.provider.unsupportedChain,
+      });
+      expect(postRequestToWallet).not.toHaveBeenCalled();
+    });
+
+    it("should update the active chain before resolving a wallet switch", async () => {
+      const listener = jest.fn();
+      chainClient.onStateChange(listener);
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: { value: null },
+      });
+
+      await expect(
+        chainClient.request({
+          method: "wallet_switchEthereumChain",
+          params: [{ chainId: "0xa" }],
+        }),
+      ).resolves.toBeNull();
+
+      expect(postRequestToWallet).toHaveBeenCalled();
+      expect(chainClient.getState().chainId).toBe(10);
+      expect(listener).toHaveBeenCalledWith({
+        accounts: ["0xAddress"],
+        chainId: 10,
+      });
+    });
+
+    it("should switch locally to chains added to the wallet", async () => {
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: { value: null },
+      });
+
+      const listener = jest.fn();
+      chainClient.onStateChange(listener);
+
+      await chainClient.request({
+        method: "wallet_addEthereumChain",
+        params: [{ chainId: "0xa", rpcUrls: ["https://optimism.example.com"] }],
+      });
+      expect(await storage.loadObject("availableChains")).toEqual([
+        { id: 1, rpcUrl: "https://eth-rpc.example.com/1" },
+        { id: 10, rpcUrl: "https://optimism.example.com" },
+      ]);
+      expect(chainClient.getState().chainId).toBe(10);
+      expect(listener).toHaveBeenCalledWith({
+        accounts: ["0xAddress"],
+        chainId: 10,
+      });
+
+      await expect(
+        chainClient.request({
+          method: "wallet_switchEthereumChain",
+          params: [{ chainId: "0xa" }],
+        }),
+      ).resolves.toBeNull();
+      expect(postRequestToWallet).toHaveBeenCalledTimes(1);
+      expect(chainClient.getState().chainId).toBe(10);
+    });
+
+    it("should not add chains the wallet rejected", async () => {
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: { error: standardErrors.provider.userRejectedRequest() },
+      });
+
+      await expect(
+        chainClient.request({
+          method: "wallet_addEthereumChain",
+          params: [
+            { chainId: "0xa", rpcUrls: ["https://optimism.example.com"] },
+          ],
+        }),
+      ).rejects.toMatchObject({
+        code: standardErrorCodes.provider.userRejectedRequest,
+      });
+      expect(await storage.loadObject("availableChains")).toEqual([
+        { id: 1, rpcUrl: "https://eth-rpc.example.com/1" },
+      ]);
+    });
+
+    it("should reject chains outside the app's chainIds", async () => {
+      await storage.storeObject("availableChains", [
+        { id: 1, rpcUrl: "https://eth-rpc.example.com/1" },
+        { id: 5, rpcUrl: "https://goerli.example.com" },
+      ]);
+
+      for (const method of [
+        "wallet_switchEthereumChain",
+        "wallet_addEthereumChain",
+      ]) {
+        await expect(
+          chainClient.request({ method, params: [{ chainId: "0x5" }] }),
+        ).rejects.toMatchObject({
+          code: standardErrorCodes.provider.unsupportedChain,
+        });
+      }
+      expect(postRequestToWallet).not.toHaveBeenCalled();
+      expect(chainClient.getState().chainId).toBe(1);
+    });
+
+    const withChainId = (chainId: string): RequestArguments[] => [
+      {
+        method: "wallet_sendCalls",
+        params: [
+          { version: "2.0.0", chainId, atomicRequired: true, calls: [] },
+        ],
+      },
+      { method: "eth_sendTransaction", params: [{ to: "0xTo", chainId }] },
+      { method: "eth_signTransaction", params: [{ to: "0xTo", chainId }] },
+      {
+        method: "eth_signTypedData_v4",
+        params: ["0xAddress", JSON.stringify({ domain: { chainId } })],
+      },
+      {
+        method: "eth_signTypedData_v4",
+        params: ["0xAddress", { domain: { chainId: Number(chainId) } }],
+      },
+    ];
+
+    it.each(withChainId("0xaa36a7"))(
+      "should reject $method for chains outside the app's chainIds",
+      async (request) => {
+        await expect(chainClient.request(request)).rejects.toMatchObject({
+          code: standardErrorCodes.provider.unsupportedChain,
+        });
+        expect(postRequestToWallet).not.toHaveBeenCalled();
+      },
+    );
+
+    it.each(withChainId("0xa"))(
+      "should send $method for chains in the app's chainIds",
+      async (request) => {
+        (decryptContent as jest.Mock).mockResolvedValueOnce({
+          result: { value: "0xResult" },
+        });
+
+        await expect(chainClient.request(request)).resolves.toBe("0xResult");
+        expect(postRequestToWallet).toHaveBeenCalled();
+      },
+    );
+
+    it("should only keep wallet chains in the app's chainIds", async () => {
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: { value: "0xSignature" },
+        data: {
+          chains: {
+            1: "https://wallet-rpc.example.com/1",
+            5: "https://wallet-rpc.example.com/5",
+            10: "https://wallet-rpc.example.com/10",
+          },
+        },
+      });
+
+      await chainClient.request({
+        method: "personal_sign",
+        params: ["0xMessage", "0xAddress"],
+      });
+
+      expect(await storage.loadObject("availableChains")).toEqual([
+        { id: 1, rpcUrl: "https://wallet-rpc.example.com/1" },
+        { id: 10, rpcUrl: "https://wallet-rpc.example.com/10" },
+      ]);
+    });
+
+    it("should not restore an active chain outside the app's chainIds", async () => {
+      await storage.storeObject("activeChain", {
+        id: 5,
+        rpcUrl: "https://goerli.example.com",
+      });
+
+      chainClient = await MWPClient.createInstance({
+        metadata: { ...mockMetadata, chainIds: [1, 10] },
+        wallet: mockWallet,
+        storage,
+      });
+
+      expect(chainClient.getState().chainId).toBe(1);
+    });
+  });
+
+  describe("per-request chains", () => {
+    let storage: InMemoryStorage;
+    let chainClient: MWPClient;
+    let listener: jest.Mock;
+
+    beforeEach(async () => {
+      storage = new InMemoryStorage("request-chain-test");
+      await storage.storeObject("schemaVersion", 3);
+      await storage.storeObject("accounts", ["0xAddress"]);
+      await storage.storeObject("availableChains", [
+        { id: 1, rpcUrl: "https://eth-rpc.example.com/1" },
+        { id: 10, rpcUrl: "https://eth-rpc.example.com/10" },
+      ]);
+      chainClient = await MWPClient.createInstance({
+        metadata: { ...mockMetadata, chainIds: [1, 10] },
+        wallet: mockWallet,
+        storage,
+      });
+      listener = jest.fn();
+      chainClient.onStateChange(listener);
+    });
+
+    it("should read from the chain of the request", async () => {
+      rpcRequest.mockResolvedValueOnce("0x10");
+
+      await expect(
+        chainClient.request({ method: "eth_blockNumber" }, { chainId: 10 }),
+      ).resolves.toBe("0x10");
+      await expect(
+        chainClient.request({ method: "eth_chainId" }, { chainId: 10 }),
+      ).resolves.toBe("0xa");
+
+      expect(rpcRequest).toHaveBeenCalledWith(
+        { method: "eth_blockNumber" },
+        "https://eth-rpc.example.com/10",
+      );
+      expect(chainClient.getState().chainId).toBe(1);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should wait for calls on the chain they were sent on", async () => {
+      rpcRequest.mockResolvedValueOnce({ id: "0xBundle", status: 200 });
+
+      await chainClient.waitForCallsStatus("0xBundle", { chainId: 10 });
+
+      expect(rpcRequest).toHaveBeenCalledWith(
+        { method: "wallet_getCallsStatus", params: ["0xBundle"] },
+        "https://eth-rpc.example.com/10",
       );
+      expect(chainClient.getState().chainId).toBe(1);
+    });
+
+    it("should ask the wallet to sign on the chain of the request", async () => {
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: { value: "0xSignature" },
+      });
+      const request = {
+        method: "personal_sign",
+        params: ["0xMessage", "0xAddress"],
+      };
+
+      await chainClient.request(request, { chainId: 10 });
+
+      expect(encryptContent).toHaveBeenCalledWith(
+        { action: request, chainId: 10 },
+        mockCryptoKey,
+      );
+      expect(chainClient.getState().chainId).toBe(1);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should reject chains outside the app's chainIds", async () => {
+      await expect(
+        chainClient.request({ method: "eth_blockNumber" }, { chainId: 5 }),
+      ).rejects.toMatchObject({
+        code: standardErrorCodes.provider.unsupportedChain,
+      });
+      expect(rpcRequest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("capabilities", () => {
+    const capabilities = {
+      "0x0": { atomic: { status: "supported" } },
+      "0x1": { paymasterService: { supported: false } },
+      "0x2105": { paymasterService: { supported: true } },
+    };
+    let storage: InMemoryStorage;
+
+    const createClientWithCapabilities = async (
+      updatedAt: number,
+      refreshCapabilities?: boolean,
+    ) => {
+      await storage.storeObject("schemaVersion", 3);
+      await storage.storeObject("accounts", ["0xAddress", "0xSecond"]);
+      await storage.storeObject("walletCapabilities", {
+        "0xaddress": { capabilities, updatedAt },
+      });
+      return MWPClient.createInstance({
+        metadata: mockMetadata,
+        wallet: mockWallet,
+        storage,
+        refreshCapabilities,
+      });
+    };
+
+    beforeEach(() => {
+      storage = new InMemoryStorage("capabilities-test");
+    });
+
+    it("should return the capabilities of the connected account", async () => {
+      const capabilitiesClient = await createClientWithCapabilities(Date.now());
+
+      await expect(
+        capabilitiesClient.request({ method: "wallet_getCapabilities" }),
+      ).resolves.toEqual(capabilities);
+      await expect(
+        capabilitiesClient.request({
+          method: "wallet_getCapabilities",
+          params: ["0xADDRESS"],
+        }),
+      ).resolves.toEqual(capabilities);
+    });
+
+    it("should filter capabilities by chain", async () => {
+      const capabilitiesClient = await createClientWithCapabilities(Date.now());
+
+      await expect(
+        capabilitiesClient.request({
+          method: "wallet_getCapabilities",
+          params: ["0xAddress", ["0x2105"]],
+        }),
+      ).resolves.toEqual({
+        "0x0": capabilities["0x0"],
+        "0x2105": capabilities["0x2105"],
+      });
+    });
+
+    it("should reject addresses that are not connected", async () => {
+      const capabilitiesClient = await createClientWithCapabilities(Date.now());
+
+      await expect(
+        capabilitiesClient.request({
+          method: "wallet_getCapabilities",
+          params: ["0xOther"],
+        }),
+      ).rejects.toMatchObject({
+        code: standardErrorCodes.rpc.invalidParams,
+      });
+    });
+
+    it("should keep the capabilities of each account apart", async () => {
+      const refreshed = { "0x1": { paymasterService: { supported: true } } };
+      const capabilitiesClient = await createClientWithCapabilities(
+        Date.now(),
+        true,
+      );
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: { value: refreshed },
+      });
+
+      await expect(
+        capabilitiesClient.request({
+          method: "wallet_getCapabilities",
+          params: ["0xSecond"],
+        }),
+      ).resolves.toEqual(refreshed);
+      await expect(
+        capabilitiesClient.request({ method: "wallet_getCapabilities" }),
+      ).resolves.toEqual(capabilities);
+      expect(postRequestToWallet).toHaveBeenCalledTimes(1);
+      expect(
+        await capabilitiesClient.getCapabilitiesInfo("0xSECOND"),
+      ).toMatchObject({ isStale: false });
+    });
+
+    it("should not return the capabilities of another account", async () => {
+      const capabilitiesClient = await createClientWithCapabilities(Date.now());
+
+      await expect(
+        capabilitiesClient.request({
+          method: "wallet_getCapabilities",
+          params: ["0xSecond"],
+        }),
+      ).resolves.toEqual({});
+      expect(
+        await capabilitiesClient.getCapabilitiesInfo("0xSecond"),
+      ).toBeNull();
+    });
+
+    it("should return stale capabilities unless refreshing is enabled", async () => {
+      const capabilitiesClient = await createClientWithCapabilities(0);
+
+      await expect(
+        capabilitiesClient.request({ method: "wallet_getCapabilities" }),
+      ).resolves.toEqual(capabilities);
+      expect(postRequestToWallet).not.toHaveBeenCalled();
+    });
+
+    it("should ask the wallet when capabilities are stale", async () => {
+      const refreshed = { "0x1": { paymasterService: { supported: true } } };
+      const capabilitiesClient = await createClientWithCapabilities(0, true);
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: { value: refreshed },
+      });
+
+      await expect(
+        capabilitiesClient.request({
+          method: "wallet_getCapabilities",
+          params: ["0xAddress", ["0x1"]],
+        }),
+      ).resolves.toEqual(refreshed);
+      expect(postRequestToWallet).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: { encrypted: encryptedData },
+        }),
+        expect.any(String),
+        mockWallet,
+        undefined,
+      );
+      expect(encryptContent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: { method: "wallet_getCapabilities", params: ["0xAddress"] },
+        }),
+        mockCryptoKey,
+      );
+      expect(await capabilitiesClient.getCapabilitiesInfo()).toEqual({
+        updatedAt: expect.any(Number),
+        isStale: false,
+      });
+    });
+
+    it("should return stale capabilities when the wallet does not answer", async () => {
+      const capabilitiesClient = await createClientWithCapabilities(0, true);
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: { error: standardErrors.provider.userRejectedRequest() },
+      });
+
+      await expect(
+        capabilitiesClient.request({ method: "wallet_getCapabilities" }),
+      ).resolves.toEqual(capabilities);
+      expect(postRequestToWallet).toHaveBeenCalled();
+      expect(await capabilitiesClient.getCapabilitiesInfo()).toEqual({
+        updatedAt: 0,
+        isStale: true,
+      });
+    });
+
+    it("should not ask the wallet when capabilities are fresh", async () => {
+      const capabilitiesClient = await createClientWithCapabilities(
+        Date.now(),
+        true,
+      );
+
+      await capabilitiesClient.request({ method: "wallet_getCapabilities" });
+
+      expect(postRequestToWallet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("read-only mode", () => {
+    let readOnlyClient: MWPClient;
+
+    beforeEach(async () => {
+      readOnlyClient = await MWPClient.createInstance({
+        metadata: mockMetadata,
+        wallet: mockWallet,
+        rpcUrls: { 1: "https://rpc.example.com" },
+      });
+    });
+
+    it("should serve chain and account methods before connecting", async () => {
+      await expect(
+        readOnlyClient.request({ method: "eth_chainId" }),
+      ).resolves.toBe("0x1");
+      await expect(
+        readOnlyClient.request({ method: "eth_accounts" }),
+      ).resolves.toEqual([]);
+    });
+
+    it("should forward RPC methods before connecting", async () => {
+      const mockRequest: RequestArguments = {
+        method: "eth_getBalance",
+        params: ["0xAddress", "latest"],
+      };
+      rpcRequest.mockResolvedValueOnce("0x0");
+
+      await expect(readOnlyClient.request(mockRequest)).resolves.toBe("0x0");
+      expect(rpcRequest).toHaveBeenCalledWith(
+        mockRequest,
+        "https://rpc.example.com",
+      );
+    });
+
+    it.each(["personal_sign", "eth_coinbase", "wallet_switchEthereumChain"])(
+      "should require a session for %s",
+      async (method) => {
+        await expect(
+          readOnlyClient.request({ method, params: [] }),
+        ).rejects.toMatchObject({
+          code: standardErrorCodes.provider.unauthorized,
+        });
+        expect(postRequestToWallet).not.toHaveBeenCalled();
+      },
+    );
+
+    it("should require a session for RPC methods without an endpoint", async () => {
+      await expect(
+        client.request({ method: "eth_blockNumber" }),
+      ).rejects.toMatchObject({
+        code: standardErrorCodes.provider.unauthorized,
+      });
+      expect(rpcRequest).not.toHaveBeenCalled();
     });
   });
 
@@ -320,4 +1550,40 @@ describe("MWPClient", () => {
       expect(client["chain"]).toEqual({ id: 1 });
     });
   });
+
+  describe("state changes", () => {
+    it("should notify listeners when the handshake connects accounts", async () => {
+      const listener = jest.fn();
+      client.onStateChange(listener);
+      (decryptContent as jest.Mock).mockResolvedValueOnce({
+        result: {
+          value: ["0xAddress"],
+        },
+      });
+
+      await client.handshake();
+
+      expect(listener).toHaveBeenCalledWith({
+        accounts: ["0xAddress"],
+        chainId: 1,
+      });
+      expect(client.getState()).toEqual({
+        accounts: ["0xAddress"],
+        chainId: 1,
+      });
+    });
+
+    it("should notify listeners on reset until unsubscribed", async () => {
+      const listener = jest.fn();
+      const unsubscribe = client.onStateChange(listener);
+
+      await client.reset();
+      expect(listener).toHaveBeenCalledWith({ accounts: [], chainId: 1 });
+
+      listener.mockClear();
+      unsubscribe();
+      await client.reset();
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,54 +1,287 @@
-import { KeyManager } from "./components/key/KeyManager";
+import { EventEmitter } from "eventemitter3";
+
+import {
+  CapacitorWalletTransport,
+  WalletTransport,
+} from "./components/communication/WalletTransport";
+import { KeyManager, SessionInfo } from "./components/key/KeyManager";
+import {
+  RequestMiddleware,
+  runMiddleware,
+} from "./components/middleware/runMiddleware";
+import { migrateStorage } from "./components/migration/migrateStorage";
+import {
+  RequestQueue,
+  RequestQueueState,
+} from "./components/queue/RequestQueue";
+import { LIB_VERSION } from "./version";
 import {
   decryptContent,
   encryptContent,
   exportKeyToHexString,
   importKeyFromHexString,
 } from ":core/cipher/cipher";
-import { standardErrors } from ":core/error";
+import { standardErrorCodes, standardErrors } from ":core/error";
+import { serializeError } from ":core/error/serialize";
 import {
   RPCRequestMessage,
   RPCResponse,
   RPCResponseMessage,
 } from ":core/message";
-import { AppMetadata, RequestArguments } from ":core/provider/interface";
+import {
+  CallsStatus,
+  GetCapabilitiesResult,
+  isFinalCallsStatus,
+} from ":core/provider/eip5792";
+import {
+  AppMetadata,
+  RequestArguments,
+  RequestOptions,
+} from ":core/provider/interface";
+import { RPCCache, RPCCacheOptions } from ":core/rpc/RPCCache";
+import { RPCClient, RPCClientOptions } from ":core/rpc/RPCClient";
+import { InMemoryStorage } from ":core/storage/InMemoryStorage";
 import { ScopedPreferencesStorage } from ":core/storage/ScopedPreferencesStorage";
+import { KeyValueStorage } from ":core/storage/types";
 import { AddressString } from ":core/type";
 import { ensureIntNumber, hexStringFromNumber } from ":core/type/util";
-
-const ACCOUNTS_KEY = "accounts";
-const ACTIVE_CHAIN_STORAGE_KEY = "activeChain";
-const AVAILABLE_CHAINS_STORAGE_KEY = "availableChains";
-const WALLET_CAPABILITIES_STORAGE_KEY = "walletCapabilities";
-import { postRequestToWallet } from "./components/communication/postRequestToWallet";
-import { LIB_VERSION } from "./version";
 import {
   appendMWPResponsePath,
   checkErrorForInvalidRequestArgs,
-  fetchRPCRequest,
 } from ":core/util/utils";
 import { Wallet } from ":core/wallet";
 
+const ACCOUNTS_KEY = "accounts";
+const ACTIVE_CHAIN_STORAGE_KEY = "activeChain";
+const AVAILABLE_CHAINS_STORAGE_KEY = "availableChains";
+const WALLET_CAPABILITIES_STORAGE_KEY = "walletCapabilities";
+const CONSUMED_RESPONSE_IDS_STORAGE_KEY = "consumedResponseIds";
+const PENDING_REQUESTS_STORAGE_KEY = "pendingRequests";
+
+// number of response ids remembered to reject replayed callbacks
+const MAX_CONSUMED_RESPONSE_IDS = 100;
+// tolerated clock difference between this device and the wallet
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// sent to the wallet, so they need a session
+const WALLET_METHODS = new Set([
+  "eth_ecRecover",
+  "personal_sign",
+  "personal_ecRecover",
+  "eth_signTransaction",
+  "eth_sendTransaction",
+  "eth_signTypedData_v1",
+  "eth_signTypedData_v3",
+  "eth_signTypedData_v4",
+  "eth_signTypedData",
+  "wallet_addEthereumChain",
+  "wallet_watchAsset",
+  "wallet_sendCalls",
+  "wallet_showCallsStatus",
+  "wallet_grantPermissions",
+]);
+
+/**
+ * @returns the chain a wallet request names in its params, if it names one.
+ */
+function getParamsChainId({ method, params }: RequestArguments): unknown {
+  const [first, second] = Array.isArray(params) ? params : [];
+  switch (method) {
+    case "wallet_sendCalls":
+    case "eth_sendTransaction":
+    case "eth_signTransaction":
+      return (first as { chainId?: unknown } | undefined)?.chainId ?? undefined;
+    case "eth_signTypedData_v4": {
+      try {
+        // typed data is usually passed as a JSON string
+        const typedData =
+          typeof second === "string" ? JSON.parse(second) : second;
+        return typedData?.domain?.chainId ?? undefined;
+      } catch {
+        // malformed typed data is for the wallet to reject
+        return undefined;
+      }
+    }
+    default:
+      return undefined;
+  }
+}
+
 type Chain = {
   id: number;
   rpcUrl?: string;
 };
 
-type MWPClientOptions = {
+// persisted while the wallet has a request, so its response survives an app restart
+type PendingRequest = {
+  id: string;
+  method: string;
+  timestamp: number;
+};
+
+type StoredCapabilities = {
+  capabilities: GetCapabilitiesResult;
+  updatedAt: number;
+};
+
+// keyed by lower-cased address, as each account has capabilities of its own
+type StoredAccountCapabilities = Record<string, StoredCapabilities>;
+
+export type CapabilitiesInfo = {
+  updatedAt: number;
+  isStale: boolean;
+};
+
+export type MWPClientState = {
+  accounts: AddressString[];
+  chainId: number;
+};
+
+type MWPClientEvents = {
+  stateChange: [MWPClientState];
+};
+
+/**
+ * A wallet response that arrived after the app was killed and relaunched,
+ * for a request whose promise no longer exists.
+ */
+export type RecoveredResponse = {
+  requestId: string;
+  method: string;
+  result: RPCResponse["result"];
+};
+
+export type WaitForCallsStatusOptions = {
+  /**
+   * How often to ask for the status. Defaults to 2 seconds.
+   */
+  intervalMs?: number;
+  /**
+   * How long to wait for the calls to be confirmed or fail before rejecting with
+   * `walletTimeout`. Defaults to 5 minutes.
+   */
+  timeoutMs?: number;
+  /**
+   * Stops waiting, rejecting with `requestCancelled`.
+   */
+  signal?: AbortSignal;
+  /**
+   * The chain the calls were sent on. Defaults to the active chain.
+   */
+  chainId?: number;
+};
+
+export type MWPClientOptions = {
   metadata: AppMetadata;
   wallet: Wallet;
+  /**
+   * Delivers requests to the wallet. Defaults to the InAppBrowser / app link flow.
+   */
+  transport?: WalletTransport;
+  /**
+   * How long a wallet session lasts before a fresh handshake is required.
+   * Defaults to 7 days.
+   */
+  sessionLifetimeMs?: number;
+  /**
+   * Where accounts, chains and other client state are kept, and the session keys
+   * too unless `keyStorage` is set. Defaults to Preferences, scoped to the wallet.
+   */
+  storage?: KeyValueStorage;
+  /**
+   * Where the session key pair and peer key are kept. Defaults to Preferences,
+   * which stores them in plaintext; pass a `SecureKeyValueStorage` to encrypt them.
+   */
+  keyStorage?: KeyValueStorage;
+  /**
+   * Called when stored state could not be read or migrated, e.g. after an SDK
+   * upgrade or downgrade. The client resets itself before calling this.
+   */
+  onStorageReset?: (error: unknown) => void;
+  /**
+   * RPC endpoints by chain id for methods the wallet does not handle, such as
+   * `eth_blockNumber`. Each endpoint is tried in order until one responds.
+   */
+  rpcUrls?: Record<number, string | string[]>;
+  /**
+   * Whether `rpcUrls` are tried before (`"override"`, the default) or after
+   * (`"fallback"`) the RPC URL the wallet shares for the chain.
+   */
+  rpcUrlPriority?: "override" | "fallback";
+  /**
+   * Batching, retries and timeouts for requests sent to RPC endpoints.
+   */
+  rpc?: RPCClientOptions;
+  /**
+   * Caches responses to idempotent RPC requests such as `eth_call` at a fixed
+   * block. Off by default.
+   */
+  cache?: boolean | RPCCacheOptions;
+  /**
+   * How long capabilities reported by the wallet are considered fresh.
+   * Defaults to 1 day.
+   */
+  capabilitiesMaxAgeMs?: number;
+  /**
+   * Ask the wallet for its capabilities when `wallet_getCapabilities` finds none,
+   * or only stale ones. This opens the wallet, so it is off by default.
+   */
+  refreshCapabilities?: boolean;
+  /**
+   * Runs before every request, including the handshake, in order. See `use()`.
+   */
+  middleware?: RequestMiddleware[];
 };
 
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+function isChain(value: unknown): value is Chain {
+  return typeof (value as Chain)?.id === "number";
+}
+
+function isArrayOf<T>(value: unknown, isItem: (item: unknown) => item is T) {
+  return Array.isArray(value) && value.every(isItem);
+}
+
 export class MWPClient {
   private readonly metadata: AppMetadata;
   private readonly wallet: Wallet;
   private readonly keyManager: KeyManager;
-  private readonly storage: ScopedPreferencesStorage;
+  private readonly transport: WalletTransport;
+  private readonly queue = new RequestQueue();
+  private readonly events = new EventEmitter<MWPClientEvents>();
+  private readonly storage: KeyValueStorage;
+  private readonly onStorageReset?: (error: unknown) => void;
+  private readonly rpcUrls: Record<number, string | string[]>;
+  private readonly rpcUrlPriority: "override" | "fallback";
+  private readonly rpcClient: RPCClient;
+  private readonly rpcCache?: RPCCache;
+  private readonly middleware: RequestMiddleware[];
+  private readonly capabilitiesMaxAgeMs: number;
+  private readonly refreshCapabilities: boolean;
 
   private accounts: AddressString[];
   private chain: Chain;
+  private recoveredResponses: RecoveredResponse[] = [];
 
-  private constructor({ metadata, wallet }: MWPClientOptions) {
+  private constructor({
+    metadata,
+    wallet,
+    transport,
+    sessionLifetimeMs,
+    storage,
+    keyStorage,
+    onStorageReset,
+    rpcUrls = {},
+    rpcUrlPriority = "override",
+    rpc,
+    cache,
+    middleware = [],
+    capabilitiesMaxAgeMs = 24 * 60 * 60 * 1000,
+    refreshCapabilities = false,
+  }: MWPClientOptions) {
     this.metadata = {
       ...metadata,
       name: metadata.name || "Dapp",
@@ -56,8 +289,30 @@ export class MWPClient {
     };
 
     this.wallet = wallet;
-    this.keyManager = new KeyManager({ wallet: this.wallet });
-    this.storage = new ScopedPreferencesStorage(this.wallet.name, "MWPClient");
+    this.transport =
+      transport ??
+      new CapacitorWalletTransport(this.metadata.customScheme, this.wallet);
+    this.keyManager = new KeyManager({
+      wallet: this.wallet,
+      sessionLifetimeMs,
+      storage: keyStorage ?? storage,
+    });
+    this.storage =
+      storage ?? new ScopedPreferencesStorage(this.wallet.name, "MWPClient");
+    this.onStorageReset = onStorageReset;
+    this.rpcUrls = rpcUrls;
+    this.rpcUrlPriority = rpcUrlPriority;
+    this.rpcClient = new RPCClient(rpc);
+    this.middleware = [...middleware];
+    this.capabilitiesMaxAgeMs = capabilitiesMaxAgeMs;
+    this.refreshCapabilities = refreshCapabilities;
+    if (cache) {
+      const { storage, ttlMs } = cache === true ? {} : cache;
+      this.rpcCache = new RPCCache(
+        storage ?? new InMemoryStorage(this.wallet.name, "RPCCache"),
+        ttlMs,
+      );
+    }
 
     // default values
     this.accounts = [];
@@ -71,18 +326,86 @@ export class MWPClient {
   }
 
   private async initialize() {
-    const storedAccounts =
-      await this.storage.loadObject<AddressString[]>(ACCOUNTS_KEY);
+    try {
+      await migrateStorage(this.storage);
+      await this.loadStoredState();
+    } catch (error) {
+      // start over rather than run on state this version cannot read
+      await this.reset();
+      this.onStorageReset?.(error);
+    }
+
+    await this.recoverPendingRequests();
+  }
+
+  /**
+   * Throws if a stored value cannot be parsed or does not have the expected shape.
+   */
+  private async loadStoredState() {
+    const [storedAccounts, storedChain, availableChains, pendingRequests] =
+      await Promise.all([
+        this.storage.loadObject<AddressString[]>(ACCOUNTS_KEY),
+        this.storage.loadObject<Chain>(ACTIVE_CHAIN_STORAGE_KEY),
+        this.storage.loadObject<Chain[]>(AVAILABLE_CHAINS_STORAGE_KEY),
+        this.storage.loadObject<PendingRequest[]>(PENDING_REQUESTS_STORAGE_KEY),
+        this.storage.loadObject(WALLET_CAPABILITIES_STORAGE_KEY),
+      ]);
+
+    const isValid = [
+      !storedAccounts || isArrayOf(storedAccounts, isString),
+      !storedChain || isChain(storedChain),
+      !availableChains || isArrayOf(availableChains, isChain),
+      !pendingRequests || Array.isArray(pendingRequests),
+    ].every(Boolean);
+    if (!isValid) {
+      throw new Error("Stored client state has an unexpected shape");
+    }
+
     if (storedAccounts) {
       this.accounts = storedAccounts;
     }
+    // the app may have dropped support for the chain since it was stored
+    if (storedChain && this.isSupportedChain(storedChain.id)) {
+      this.chain = storedChain;
+    }
+  }
 
-    const storedChain = await this.storage.loadObject<Chain>(
-      ACTIVE_CHAIN_STORAGE_KEY,
+  private async recoverPendingRequests() {
+    const pendingRequests = await this.storage.loadObject<PendingRequest[]>(
+      PENDING_REQUESTS_STORAGE_KEY,
     );
-    if (storedChain) {
-      this.chain = storedChain;
+    if (!pendingRequests?.length) return;
+
+    // requests from a previous launch can only be answered by the launch URL
+    await this.storage.removeItem(PENDING_REQUESTS_STORAGE_KEY);
+
+    const response = await this.transport.getLaunchResponse?.();
+    const request = pendingRequests.find(
+      ({ id }) => id === response?.requestId,
+    );
+    if (!response || !request) return;
+
+    try {
+      await this.verifyResponseMessage(request, response);
+    } catch {
+      return;
+    }
+
+    let result: RPCResponse["result"];
+    try {
+      result =
+        request.method === "eth_requestAccounts"
+          ? { value: await this.handleHandshakeResponse(response) }
+          : (await this.decryptResponseMessage(response, request.method))
+              .result;
+    } catch (error) {
+      result = { error: serializeError(error) };
     }
+    this.recoveredResponses.push({
+      requestId: request.id,
+      method: request.method,
+      result,
+    });
   }
 
   static async createInstance(params: MWPClientOptions) {
@@ -91,9 +414,111 @@ export class MWPClient {
     return instance;
   }
 
-  async handshake(): Promise<AddressString[]> {
-    if (this.accounts.length > 0) return this.accounts;
+  async handshake(options?: RequestOptions): Promise<AddressString[]> {
+    // middleware sees the handshake as eth_requestAccounts, but cannot change its params
+    const accounts = await runMiddleware(
+      [...this.middleware],
+      { method: "eth_requestAccounts" },
+      options,
+      () => this.connect(options),
+    );
+    return accounts as AddressString[];
+  }
+
+  private async connect(options?: RequestOptions): Promise<AddressString[]> {
+    if (await this.isConnected()) return this.accounts;
+
+    return this.queue.enqueue(
+      "eth_requestAccounts",
+      async () => {
+        // an earlier queued handshake may have connected in the meantime
+        if (await this.isConnected()) return this.accounts;
+        return this.sendHandshake(options);
+      },
+      options?.signal,
+    );
+  }
+
+  // accounts outlive the session when it expires, so both are required
+  private async isConnected() {
+    return (
+      this.accounts.length > 0 &&
+      (await this.keyManager.getSharedSecret()) !== null
+    );
+  }
+
+  /**
+   * When the current wallet session was established and when it expires.
+   * @returns `null` if there is no session, e.g. before the handshake or after expiry.
+   */
+  getSessionInfo(): Promise<SessionInfo | null> {
+    return this.keyManager.getSessionInfo();
+  }
+
+  /**
+   * When the wallet last reported the capabilities of `address`, the first
+   * connected account by default, and whether that is longer ago than
+   * `capabilitiesMaxAgeMs`.
+   * @returns `null` if the wallet has not reported any for the account.
+   */
+  async getCapabilitiesInfo(
+    address: string | undefined = this.accounts[0],
+  ): Promise<CapabilitiesInfo | null> {
+    const stored = await this.loadCapabilities(address);
+    if (!stored) return null;
+
+    return {
+      updatedAt: stored.updatedAt,
+      isStale: Date.now() - stored.updatedAt > this.capabilitiesMaxAgeMs,
+    };
+  }
+
+  /**
+   * Responses to requests made before the app was killed, recovered from the
+   * URL that relaunched it. Empty unless this launch came from a wallet callback.
+   */
+  getRecoveredResponses(): RecoveredResponse[] {
+    return [...this.recoveredResponses];
+  }
+
+  getState(): MWPClientState {
+    return { accounts: this.accounts, chainId: this.chain.id };
+  }
+
+  /**
+   * Notifies `listener` when the connected accounts or the active chain change,
+   * whether through a request, a wallet response or `reset`.
+   *
+   * @returns a function that removes the listener.
+   */
+  onStateChange(listener: (state: MWPClientState) => void) {
+    this.events.on("stateChange", listener);
+    return () => {
+      this.events.off("stateChange", listener);
+    };
+  }
+
+  /**
+   * Wallet-bound requests, in order. The first one is with the wallet while
+   * `inProgress` is set, the others wait for it to finish.
+   */
+  getQueueState(): RequestQueueState {
+    return this.queue.getState();
+  }
+
+  /**
+   * @returns a function that removes the listener.
+   */
+  onQueueStateChange(listener: (state: RequestQueueState) => void) {
+    this.queue.on("change", listener);
+    return () => {
+      this.queue.off("change", listener);
+    };
+  }
 
+  private async sendHandshake(
+    options?: RequestOptions,
+  ): Promise<AddressString[]> {
     const handshakeMessage = await this.createRequestMessage({
       handshake: {
         method: "eth_requestAccounts",
@@ -103,12 +528,17 @@ export class MWPClient {
         },
       },
     });
-    const response: RPCResponseMessage = await postRequestToWallet(
+    const response = await this.sendRequestMessage(
       handshakeMessage,
-      this.metadata.customScheme,
-      this.wallet,
+      "eth_requestAccounts",
+      options,
     );
+    return this.handleHandshakeResponse(response);
+  }
 
+  private async handleHandshakeResponse(
+    response: RPCResponseMessage,
+  ): Promise<AddressString[]> {
     // store peer's public key
     if ("failure" in response.content) throw response.content.failure;
     const peerPublicKey = await importKeyFromHexString(
@@ -117,7 +547,10 @@ export class MWPClient {
     );
     await this.keyManager.setPeerPublicKey(peerPublicKey);
 
-    const decrypted = await this.decryptResponseMessage(response);
+    const decrypted = await this.decryptResponseMessage(
+      response,
+      "eth_requestAccounts",
+    );
 
     const result = decrypted.result;
     if ("error" in result) throw result.error;
@@ -125,16 +558,43 @@ export class MWPClient {
     const accounts = result.value as AddressString[];
     this.accounts = accounts;
     await this.storage.storeObject(ACCOUNTS_KEY, accounts);
+    this.events.emit("stateChange", this.getState());
 
     return accounts;
   }
 
-  async request(request: RequestArguments) {
-    if (this.accounts.length === 0) {
-      throw standardErrors.provider.unauthorized();
-    }
+  /**
+   * Adds `middleware` after the middleware already registered.
+   *
+   * @returns a function that removes it.
+   */
+  use(middleware: RequestMiddleware) {
+    this.middleware.push(middleware);
+    return () => {
+      const index = this.middleware.indexOf(middleware);
+      if (index !== -1) this.middleware.splice(index, 1);
+    };
+  }
+
+  async request(request: RequestArguments, options?: RequestOptions) {
+    return runMiddleware([...this.middleware], request, options, (request) =>
+      this.handleRequest(request, options),
+    );
+  }
 
+  private async handleRequest(
+    request: RequestArguments,
+    options?: RequestOptions,
+  ) {
     checkErrorForInvalidRequestArgs(request);
+    const chain = await this.getRequestChain(options);
+
+    if (
+      this.accounts.length === 0 &&
+      !this.isAvailableWithoutSession(request.method, chain)
+    ) {
+      throw standardErrors.provider.unauthorized();
+    }
 
     switch (request.method) {
       case "eth_requestAccounts":
@@ -144,59 +604,290 @@ export class MWPClient {
       case "eth_coinbase":
         return this.accounts[0];
       case "net_version":
-        return this.chain.id;
+        return chain.id;
       case "eth_chainId":
-        return hexStringFromNumber(this.chain.id);
+        return hexStringFromNumber(chain.id);
       case "wallet_getCapabilities":
-        return this.storage.loadObject(WALLET_CAPABILITIES_STORAGE_KEY);
+        return this.getCapabilities(request, options);
       case "wallet_switchEthereumChain":
-        return this.handleSwitchChainRequest(request);
-      case "eth_ecRecover":
-      case "personal_sign":
-      case "personal_ecRecover":
-      case "eth_signTransaction":
-      case "eth_sendTransaction":
-      case "eth_signTypedData_v1":
-      case "eth_signTypedData_v3":
-      case "eth_signTypedData_v4":
-      case "eth_signTypedData":
+        return this.handleSwitchChainRequest(request, options);
       case "wallet_addEthereumChain":
-      case "wallet_watchAsset":
-      case "wallet_sendCalls":
-      case "wallet_showCallsStatus":
-      case "wallet_grantPermissions":
-        return this.sendRequestToPopup(request);
+        return this.handleAddChainRequest(request, options);
+      case "wallet_getCallsStatus":
+        return this.getCallsStatus(request, chain, options);
       default:
-        if (!this.chain.rpcUrl)
-          throw standardErrors.rpc.internal("No RPC URL set for chain");
-        return fetchRPCRequest(request, this.chain.rpcUrl);
+        if (WALLET_METHODS.has(request.method)) {
+          const paramsChainId = getParamsChainId(request);
+          if (paramsChainId !== undefined) {
+            this.assertSupportedChain(ensureIntNumber(paramsChainId));
+          }
+          return this.sendRequestToPopup(request, options);
+        }
+        return this.sendRequestToRPC(request, chain);
     }
   }
 
-  private async sendRequestToPopup(request: RequestArguments) {
-    const response = await this.sendEncryptedRequest(request);
-    const decrypted = await this.decryptResponseMessage(response);
+  /**
+   * @returns the chain `options.chainId` asks for, or the active chain.
+   */
+  private async getRequestChain(options?: RequestOptions): Promise<Chain> {
+    const chainId = options?.chainId;
+    if (chainId === undefined || chainId === this.chain.id) return this.chain;
 
-    const result = decrypted.result;
-    if ("error" in result) throw result.error;
+    this.assertSupportedChain(chainId);
+    const chains = await this.storage.loadObject<Chain[]>(
+      AVAILABLE_CHAINS_STORAGE_KEY,
+    );
+    return chains?.find(({ id }) => id === chainId) ?? { id: chainId };
+  }
+
+  /**
+   * Read-only mode: before the user connects, methods that need no wallet are still
+   * served, and those forwarded to an RPC endpoint are served if one is configured.
+   */
+  private isAvailableWithoutSession(method: string, chain: Chain) {
+    switch (method) {
+      case "eth_accounts":
+      case "eth_chainId":
+      case "net_version":
+        return true;
+      case "eth_requestAccounts":
+      case "eth_coinbase":
+      case "wallet_getCapabilities":
+      case "wallet_switchEthereumChain":
+      case "wallet_getCallsStatus":
+        return false;
+      default:
+        return !WALLET_METHODS.has(method) && this.getRPCUrls(chain).length > 0;
+    }
+  }
+
+  /**
+   * Polls `wallet_getCallsStatus` until the calls sent with `wallet_sendCalls` are
+   * confirmed or have failed.
+   *
+   * Polls the RPC endpoint the wallet shared for the chain, and rejects with
+   * `resourceUnavailable` if there is none, rather than open the wallet on every poll.
+   *
+   * @returns the final status, with receipts. Check `status` to tell success from failure.
+   */
+  async waitForCallsStatus(
+    id: string,
+    {
+      intervalMs = 2000,
+      timeoutMs = 5 * 60 * 1000,
+      signal,
+      chainId,
+    }: WaitForCallsStatusOptions = {},
+  ): Promise<CallsStatus> {
+    const chain = await this.getRequestChain({ chainId });
+    if (!chain.rpcUrl) {
+      throw standardErrors.rpc.resourceUnavailable(
+        `No wallet RPC endpoint to poll for calls on chain ${chain.id}`,
+      );
+    }
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const status = (await this.request(
+        { method: "wallet_getCallsStatus", params: [id] },
+        { signal, chainId },
+      )) as CallsStatus;
+      if (isFinalCallsStatus(status)) return status;
+
+      if (Date.now() + intervalMs > deadline) {
+        throw standardErrors.provider.walletTimeout(
+          `Calls ${id} were still pending after ${timeoutMs} ms`,
+        );
+      }
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          clearTimeout(timeout);
+          reject(standardErrors.provider.requestCancelled());
+        };
+        const timeout = setTimeout(() => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        }, intervalMs);
+        if (signal?.aborted) onAbort();
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+  }
+
+  /**
+   * https://eips.ethereum.org/EIPS/eip-5792#wallet_getcapabilities
+   */
+  private async getCapabilities(
+    request: RequestArguments,
+    options?: RequestOptions,
+  ): Promise<GetCapabilitiesResult> {
+    const [address = this.accounts[0], chainIds] = (request.params ?? []) as [
+      string?,
+      `0x${string}`[]?,
+    ];
+    const isConnectedAccount = this.accounts.some(
+      (account) =>
+        isString(address) && account.toLowerCase() === address.toLowerCase(),
+    );
+    // not unauthorized, which providers take to mean the session is gone
+    if (!isConnectedAccount) {
+      throw standardErrors.rpc.invalidParams(
+        `${address} is not a connected account`,
+      );
+    }
+
+    let capabilities = (await this.loadCapabilities(address))?.capabilities;
+    const info = await this.getCapabilitiesInfo(address);
+    if (this.refreshCapabilities && (!info || info.isStale)) {
+      try {
+        // ask for every chain, so the stored capabilities stay complete
+        capabilities = (await this.sendRequestToPopup(
+          { method: "wallet_getCapabilities", params: [address] },
+          options,
+        )) as GetCapabilitiesResult;
+        await this.storeCapabilities(address, capabilities);
+      } catch (error) {
+        // stale capabilities beat none
+        if (!capabilities) throw error;
+      }
+    }
+
+    if (!capabilities) return {};
+    if (!chainIds) return capabilities;
+
+    const requested = new Set(chainIds.map(Number));
+    return Object.fromEntries(
+      Object.entries(capabilities).filter(
+        ([chainId]) => Number(chainId) === 0 || requested.has(Number(chainId)),
+      ),
+    );
+  }
+
+  private async loadCapabilities(
+    address: string | undefined,
+  ): Promise<StoredCapabilities | undefined> {
+    if (!address) return undefined;
+    const stored = await this.storage.loadObject<StoredAccountCapabilities>(
+      WALLET_CAPABILITIES_STORAGE_KEY,
+    );
+    return stored?.[address.toLowerCase()];
+  }
+
+  private async storeCapabilities(
+    address: string,
+    capabilities: GetCapabilitiesResult,
+  ) {
+    const stored = await this.storage.loadObject<StoredAccountCapabilities>(
+      WALLET_CAPABILITIES_STORAGE_KEY,
+    );
+    await this.storage.storeObject<StoredAccountCapabilities>(
+      WALLET_CAPABILITIES_STORAGE_KEY,
+      {
+        ...stored,
+        [address.toLowerCase()]: { capabilities, updatedAt: Date.now() },
+      },
+    );
+  }
 
-    return result.value;
+  // bundle ids are only known to the wallet, so skip the app's own RPC endpoints
+  private async getCallsStatus(
+    request: RequestArguments,
+    chain: Chain,
+    options?: RequestOptions,
+  ) {
+    if (chain.rpcUrl) {
+      return this.rpcClient.request(request, chain.rpcUrl);
+    }
+    return this.sendRequestToPopup(request, options);
+  }
+
+  private async sendRequestToRPC(request: RequestArguments, chain: Chain) {
+    const cached = await this.rpcCache?.get(chain.id, request);
+    if (cached) return cached.result;
+
+    const result = await this.fetchFromRPC(request, chain);
+    await this.rpcCache?.set(chain.id, request, result);
+    return result;
+  }
+
+  private async fetchFromRPC(request: RequestArguments, chain: Chain) {
+    const rpcUrls = this.getRPCUrls(chain);
+    if (rpcUrls.length === 0)
+      throw standardErrors.rpc.internal("No RPC URL set for chain");
+
+    let lastError: unknown;
+    for (const rpcUrl of rpcUrls) {
+      try {
+        return await this.rpcClient.request(request, rpcUrl);
+      } catch (error) {
+        // only an outage is worth another endpoint; any other error is the node's answer
+        const { code } = error as { code?: number };
+        if (
+          code !== standardErrorCodes.rpc.resourceUnavailable &&
+          code !== standardErrorCodes.rpc.limitExceeded
+        )
+          throw error;
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  private getRPCUrls(chain: Chain): string[] {
+    const configured = [this.rpcUrls[chain.id] ?? []].flat();
+    const shared = chain.rpcUrl ? [chain.rpcUrl] : [];
+    const rpcUrls =
+      this.rpcUrlPriority === "override"
+        ? [...configured, ...shared]
+        : [...shared, ...configured];
+    return [...new Set(rpcUrls)];
+  }
+
+  private async sendRequestToPopup(
+    request: RequestArguments,
+    options?: RequestOptions,
+  ) {
+    return this.queue.enqueue(
+      request.method,
+      async () => {
+        const response = await this.sendEncryptedRequest(request, options);
+        const decrypted = await this.decryptResponseMessage(
+          response,
+          request.method,
+        );
+
+        const result = decrypted.result;
+        if ("error" in result) throw result.error;
+
+        return result.value;
+      },
+      options?.signal,
+    );
   }
 
   async reset() {
     await this.storage.clear();
+    // stamp the cleared storage as current, so the next launch migrates nothing
+    await migrateStorage(this.storage);
     await this.keyManager.clear();
+    await this.rpcCache?.clear();
     this.accounts = [];
     this.chain = {
       id: this.metadata.chainIds?.[0] ?? 1,
     };
+    this.recoveredResponses = [];
+    this.events.emit("stateChange", this.getState());
   }
 
   /**
    * @returns `null` if the request was successful.
    * https://eips.ethereum.org/EIPS/eip-3326#wallet_switchethereumchain
    */
-  private async handleSwitchChainRequest(request: RequestArguments) {
+  private async handleSwitchChainRequest(
+    request: RequestArguments,
+    options?: RequestOptions,
+  ) {
     const params = request.params as [
       {
         chainId: `0x${string}`;
@@ -206,19 +897,69 @@ export class MWPClient {
       throw standardErrors.rpc.invalidParams();
     }
     const chainId = ensureIntNumber(params[0].chainId);
+    this.assertSupportedChain(chainId);
 
     const localResult = await this.updateChain(chainId);
     if (localResult) return null;
 
-    const popupResult = await this.sendRequestToPopup(request);
-    if (popupResult === null) {
-      this.updateChain(chainId);
+    // unknown to the wallet and the app, so it has to be added first
+    if (!this.metadata.chainIds?.includes(chainId)) {
+      throw standardErrors.provider.unsupportedChain();
+    }
+
+    const popupResult = await this.sendRequestToPopup(request, options);
+    if (popupResult === null && !(await this.updateChain(chainId))) {
+      // the wallet switched without sharing an RPC URL for the chain
+      await this.setActiveChain({ id: chainId });
     }
     return popupResult;
   }
 
+  /**
+   * Switches to the chain once the wallet has added it, as EIP-3085 allows,
+   * so a switch that fails with 4902 and is followed by an add ends on the
+   * requested chain.
+   *
+   * @returns `null` if the request was successful.
+   * https://eips.ethereum.org/EIPS/eip-3085#wallet_addethereumchain
+   */
+  private async handleAddChainRequest(
+    request: RequestArguments,
+    options?: RequestOptions,
+  ) {
+    const [params] = (request.params ?? []) as [
+      { chainId?: `0x${string}`; rpcUrls?: string[] }?,
+    ];
+    const chainId = params?.chainId && ensureIntNumber(params.chainId);
+    if (chainId) this.assertSupportedChain(chainId);
+
+    const popupResult = await this.sendRequestToPopup(request, options);
+    if (popupResult === null && chainId) {
+      await this.addAvailableChain({
+        id: chainId,
+        rpcUrl: params?.rpcUrls?.[0],
+      });
+      await this.updateChain(chainId);
+    }
+    return popupResult;
+  }
+
+  private async addAvailableChain(chain: Chain) {
+    const chains =
+      (await this.storage.loadObject<Chain[]>(AVAILABLE_CHAINS_STORAGE_KEY)) ??
+      [];
+    // chains the wallet shared in its response take precedence
+    if (chains.some(({ id }) => id === chain.id)) return;
+
+    await this.storage.storeObject(AVAILABLE_CHAINS_STORAGE_KEY, [
+      ...chains,
+      chain,
+    ]);
+  }
+
   private async sendEncryptedRequest(
     request: RequestArguments,
+    options?: RequestOptions,
   ): Promise<RPCResponseMessage> {
     const sharedSecret = await this.keyManager.getSharedSecret();
     if (!sharedSecret) {
@@ -230,17 +971,87 @@ export class MWPClient {
     const encrypted = await encryptContent(
       {
         action: request,
-        chainId: this.chain.id,
+        chainId: options?.chainId ?? this.chain.id,
       },
       sharedSecret,
     );
     const message = await this.createRequestMessage({ encrypted });
 
-    return postRequestToWallet(
-      message,
-      this.metadata.customScheme,
-      this.wallet,
+    return this.sendRequestMessage(message, request.method, options);
+  }
+
+  private async sendRequestMessage(
+    message: RPCRequestMessage,
+    method: string,
+    options?: RequestOptions,
+  ): Promise<RPCResponseMessage> {
+    const pendingRequest: PendingRequest = {
+      id: message.id,
+      method,
+      timestamp: message.timestamp.getTime(),
+    };
+    await this.updatePendingRequests((pending) => [...pending, pendingRequest]);
+
+    try {
+      const response = await this.transport.send(message, options);
+      await this.verifyResponseMessage(pendingRequest, response);
+      return response;
+    } finally {
+      await this.updatePendingRequests((pending) =>
+        pending.filter(({ id }) => id !== pendingRequest.id),
+      );
+    }
+  }
+
+  private async updatePendingRequests(
+    update: (pending: PendingRequest[]) => PendingRequest[],
+  ) {
+    const pending =
+      (await this.storage.loadObject<PendingRequest[]>(
+        PENDING_REQUESTS_STORAGE_KEY,
+      )) ?? [];
+    await this.storage.storeObject(
+      PENDING_REQUESTS_STORAGE_KEY,
+      update(pending),
+    );
+  }
+
+  /**
+   * Rejects responses that do not answer `request`, were already processed,
+   * or were not created while `request` was pending.
+   */
+  private async verifyResponseMessage(
+    request: Pick<PendingRequest, "id" | "timestamp">,
+    response: RPCResponseMessage,
+  ) {
+    if (response.requestId !== request.id) {
+      throw standardErrors.provider.malformedResponse(
+        "Response does not match the pending request",
+      );
+    }
+
+    const consumedIds =
+      (await this.storage.loadObject<string[]>(
+        CONSUMED_RESPONSE_IDS_STORAGE_KEY,
+      )) ?? [];
+    if (consumedIds.includes(response.id)) {
+      throw standardErrors.provider.malformedResponse(
+        "Response has already been processed",
+      );
+    }
+    await this.storage.storeObject(
+      CONSUMED_RESPONSE_IDS_STORAGE_KEY,
+      [...consumedIds, response.id].slice(-MAX_CONSUMED_RESPONSE_IDS),
     );
+
+    const timestamp = new Date(response.timestamp).getTime();
+    const earliest = request.timestamp - MAX_CLOCK_SKEW_MS;
+    const latest = Date.now() + MAX_CLOCK_SKEW_MS;
+    if (Number.isNaN(timestamp) || timestamp < earliest || timestamp > latest) {
+      throw standardErrors.provider.malformedResponse(
+        "Response timestamp is outside the accepted window",
+      );
+    }
   }
 
   private async createRequestMessage(
@@ -262,6 +1073,7 @@ export class MWPClient {
 
   private async decryptResponseMessage(
     message: RPCResponseMessage,
+    method: string,
   ): Promise<RPCResponse> {
     const content = message.content;
 
@@ -282,20 +1094,22 @@ export class MWPClient {
 
     const availableChains = response.data?.chains;
     if (availableChains) {
-      const chains = Object.entries(availableChains).map(([id, rpcUrl]) => ({
-        id: Number(id),
-        rpcUrl,
-      }));
+      const chains = Object.entries(availableChains)
+        .map(([id, rpcUrl]) => ({ id: Number(id), rpcUrl }))
+        .filter(({ id }) => this.isSupportedChain(id));
       await this.storage.storeObject(AVAILABLE_CHAINS_STORAGE_KEY, chains);
       await this.updateChain(this.chain.id, chains);
     }
 
     const walletCapabilities = response.data?.capabilities;
-    if (walletCapabilities) {
-      await this.storage.storeObject(
-        WALLET_CAPABILITIES_STORAGE_KEY,
-        walletCapabilities,
-      );
+    // a handshake reports the capabilities of the accounts it connects, which
+    // are not stored yet
+    const [account] =
+      method === "eth_requestAccounts" && "value" in response.result
+        ? (response.result.value as AddressString[])
+        : this.accounts;
+    if (walletCapabilities && account) {
+      await this.storeCapabilities(account, walletCapabilities);
     }
 
     return response;
@@ -312,9 +1126,33 @@ export class MWPClient {
     if (!chain) return false;
 
     if (chain !== this.chain) {
-      this.chain = chain;
-      await this.storage.storeObject(ACTIVE_CHAIN_STORAGE_KEY, chain);
+      await this.setActiveChain(chain);
     }
     return true;
   }
+
+  /**
+   * `metadata.chainIds`, when set, lists the only chains the client may use.
+   */
+  private isSupportedChain(chainId: number) {
+    const { chainIds } = this.metadata;
+    return !chainIds?.length || chainIds.includes(chainId);
+  }
+
+  private assertSupportedChain(chainId: number) {
+    if (!this.isSupportedChain(chainId)) {
+      throw standardErrors.provider.unsupportedChain(
+        `Chain ${chainId} is not in the app's chainIds`,
+      );
+    }
+  }
+
+  private async setActiveChain(chain: Chain) {
+    const previousChainId = this.chain.id;
+    this.chain = chain;
+    await this.storage.storeObject(ACTIVE_CHAIN_STORAGE_KEY, chain);
+    if (chain.id !== previousChainId) {
+      this.events.emit("stateChange", this.getState());
+    }
+  }
 }
@@ -0,0 +1,162 @@
+import { MWPClient } from './MWPClient';
+import { MockWallet } from './testing/MockWallet';
+import { WalletSessionManager } from './WalletSessionManager';
+import { standardErrorCodes } from ':core/error';
+import { InMemoryStorage } from ':core/storage/InMemoryStorage';
+
+const smartWalletAccounts = ['0x742d35cc6634c0532925a3b844bc454e4438f44e'];
+const mobileWalletAccounts = ['0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed'];
+
+describe('WalletSessionManager', () => {
+  let smartWallet: MockWallet;
+  let mobileWallet: MockWallet;
+  let manager: WalletSessionManager;
+  let createManager: () => WalletSessionManager;
+
+  beforeEach(() => {
+    smartWallet = new MockWallet({
+      name: 'Smart Wallet',
+      accounts: smartWalletAccounts,
+      chains: { 1: 'https://eth-rpc.example.com/1', 8453: 'https://eth-rpc.example.com/8453' },
+      handlers: { personal_sign: () => '0xSmartSignature' },
+    });
+    mobileWallet = new MockWallet({
+      name: 'Mobile Wallet',
+      accounts: mobileWalletAccounts,
+      handlers: { personal_sign: () => '0xMobileSignature' },
+    });
+    const mockWallets = [smartWallet, mobileWallet];
+    // reused across restarts, as an app would reuse its persistent storage
+    const clientStorages = new Map(
+      mockWallets.map(({ wallet }) => [wallet.name, new InMemoryStorage(wallet.name, 'MWPClient')])
+    );
+    const managerStorage = new InMemoryStorage('WalletSessionManager');
+
+    createManager = () =>
+      new WalletSessionManager({
+        metadata: { name: 'Test App', chainIds: [1, 8453], customScheme: 'myapp://' },
+        clientOptions: (wallet) => ({
+          transport: mockWallets.find((mock) => mock.wallet.name === wallet.name),
+          storage: clientStorages.get(wallet.name),
+        }),
+        storage: managerStorage,
+      });
+    manager = createManager();
+  });
+
+  it('should create one client per wallet', async () => {
+    const client = await manager.getClient(smartWallet.wallet);
+
+    expect(client).toBeInstanceOf(MWPClient);
+    await expect(manager.getClient(smartWallet.wallet)).resolves.toBe(client);
+    await expect(manager.getClient(mobileWallet.wallet)).resolves.not.toBe(client);
+  });
+
+  it('should list connected sessions', async () => {
+    await manager.getClient(mobileWallet.wallet);
+    await manager.connect(smartWallet.wallet);
+
+    expect(manager.getSessions()).toEqual([
+      { wallet: smartWallet.wallet, accounts: smartWalletAccounts, chainId: 1 },
+    ]);
+
+    await manager.connect(mobileWallet.wallet);
+
+    expect(manager.getSessions()).toHaveLength(2);
+  });
+
+  it('should route requests to the active wallet', async () => {
+    await manager.connect(smartWallet.wallet);
+    await manager.connect(mobileWallet.wallet);
+
+    await expect(manager.request({ method: 'personal_sign', params: [] })).resolves.toEqual(
+      '0xMobileSignature'
+    );
+
+    await manager.setActiveWallet(smartWallet.wallet);
+
+    expect(manager.getActiveWallet()).toBe(smartWallet.wallet);
+    await expect(manager.request({ method: 'personal_sign', params: [] })).resolves.toEqual(
+      '0xSmartSignature'
+    );
+    await expect(manager.request({ method: 'eth_accounts' })).resolves.toEqual(smartWalletAccounts);
+  });
+
+  it('should reject requests without an active wallet', async () => {
+    await expect(manager.request({ method: 'eth_accounts' })).rejects.toMatchObject({
+      code: standardErrorCodes.provider.unauthorized,
+    });
+  });
+
+  it('should report state changes of the active wallet only', async () => {
+    const listener = jest.fn();
+    manager.onStateChange(listener);
+    await manager.connect(mobileWallet.wallet);
+    await manager.connect(smartWallet.wallet);
+    listener.mockClear();
+
+    await manager.setActiveWallet(mobileWallet.wallet);
+    expect(listener).toHaveBeenCalledWith({ accounts: mobileWalletAccounts, chainId: 1 });
+
+    listener.mockClear();
+    const smartWalletClient = await manager.getClient(smartWallet.wallet);
+    await smartWalletClient.request({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: '0x2105' }],
+    });
+    expect(listener).not.toHaveBeenCalled();
+    expect(manager.getState()).toEqual({ accounts: mobileWalletAccounts, chainId: 1 });
+  });
+
+  it('should disconnect a single wallet', async () => {
+    await manager.connect(smartWallet.wallet);
+    await manager.connect(mobileWallet.wallet);
+
+    await manager.disconnect(smartWallet.wallet);
+
+    expect(manager.getSessions()).toEqual([
+      { wallet: mobileWallet.wallet, accounts: mobileWalletAccounts, chainId: 1 },
+    ]);
+    expect(manager.getActiveWallet()).toBe(mobileWallet.wallet);
+  });
+
+  it('should restore sessions after a restart', async () => {
+    await manager.connect(smartWallet.wallet);
+    await manager.connect(mobileWallet.wallet);
+    await manager.setActiveWallet(smartWallet.wallet);
+
+    const restartedManager = createManager();
+    await restartedManager.restore();
+
+    expect(restartedManager.getSessions()).toEqual([
+      { wallet: smartWallet.wallet, accounts: smartWalletAccounts, chainId: 1 },
+      { wallet: mobileWallet.wallet, accounts: mobileWalletAccounts, chainId: 1 },
+    ]);
+    expect(restartedManager.getActiveWallet()).toEqual(smartWallet.wallet);
+    expect(restartedManager.getState()).toEqual({ accounts: smartWalletAccounts, chainId: 1 });
+  });
+
+  it('should restore sessions before handling requests', async () => {
+    await manager.connect(mobileWallet.wallet);
+
+    const restartedManager = createManager();
+
+    await expect(
+      restartedManager.request({ method: 'personal_sign', params: [] })
+    ).resolves.toEqual('0xMobileSignature');
+  });
+
+  it('should not restore disconnected wallets', async () => {
+    await manager.connect(smartWallet.wallet);
+    await manager.connect(mobileWallet.wallet);
+    await manager.disconnect(mobileWallet.wallet);
+
+    const restartedManager = createManager();
+    await restartedManager.restore();
+
+    expect(restartedManager.getSessions()).toEqual([
+      { wallet: smartWallet.wallet, accounts: smartWalletAccounts, chainId: 1 },
+    ]);
+    expect(restartedManager.getActiveWallet()).toBeNull();
+  });
+});
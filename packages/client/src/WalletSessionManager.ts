@@ -0,0 +1,226 @@
+import { EventEmitter } from 'eventemitter3';
+
+import { MWPClient, MWPClientOptions, MWPClientState } from './MWPClient';
+import { standardErrors } from ':core/error';
+import { AppMetadata, RequestArguments, RequestOptions } from ':core/provider/interface';
+import { ScopedPreferencesStorage } from ':core/storage/ScopedPreferencesStorage';
+import { KeyValueStorage } from ':core/storage/types';
+import { AddressString } from ':core/type';
+import { Wallet } from ':core/wallet';
+
+const CONNECTED_WALLETS_STORAGE_KEY = 'connectedWallets';
+const ACTIVE_WALLET_STORAGE_KEY = 'activeWallet';
+
+export type WalletSessionManagerOptions = {
+  metadata: AppMetadata;
+  /**
+   * Additional options for the client of each wallet, e.g. its transport or storage.
+   */
+  clientOptions?: (wallet: Wallet) => Omit<MWPClientOptions, 'metadata' | 'wallet'>;
+  /**
+   * Where the connected wallets and the active wallet are kept, so they can be
+   * restored after a restart. Defaults to Preferences.
+   */
+  storage?: KeyValueStorage;
+};
+
+export type WalletSession = {
+  wallet: Wallet;
+  accounts: AddressString[];
+  chainId: number;
+};
+
+type WalletSessionManagerEvents = {
+  stateChange: [MWPClientState];
+};
+
+/**
+ * Holds sessions with several wallets at once, one `MWPClient` per wallet.
+ *
+ * One wallet is active at a time. `handshake`, `request` and `reset` go to the active
+ * wallet, and state changes are reported for it, so the manager can back an
+ * `EIP1193Provider` in place of a single client.
+ */
+export class WalletSessionManager {
+  private readonly metadata: AppMetadata;
+  private readonly clientOptions?: WalletSessionManagerOptions['clientOptions'];
+  private readonly events = new EventEmitter<WalletSessionManagerEvents>();
+  private readonly storage: KeyValueStorage;
+  private restored: Promise<void> | null = null;
+
+  // keyed by wallet name, which also scopes each client's storage
+  private readonly clients = new Map<string, Promise<MWPClient>>();
+  private readonly createdClients = new Map<string, { wallet: Wallet; client: MWPClient }>();
+  private activeWallet: Wallet | null = null;
+
+  constructor({ metadata, clientOptions, storage }: WalletSessionManagerOptions) {
+    this.metadata = metadata;
+    this.clientOptions = clientOptions;
+    this.storage = storage ?? new ScopedPreferencesStorage('WalletSessionManager');
+
+    this.handshake = this.handshake.bind(this);
+    this.request = this.request.bind(this);
+    this.reset = this.reset.bind(this);
+  }
+
+  /**
+   * Restores the wallets that were connected, and the active wallet, when the app
+   * last ran. Runs once. The async methods wait for it, so only await it before
+   * reading `getSessions()`, `getActiveWallet()` or `getState()` at startup.
+   */
+  restore(): Promise<void> {
+    this.restored ??= this.restoreSessions();
+    return this.restored;
+  }
+
+  /**
+   * Returns the client for `wallet`, creating it on first use.
+   */
+  getClient(wallet: Wallet): Promise<MWPClient> {
+    let client = this.clients.get(wallet.name);
+    if (!client) {
+      client = this.createClient(wallet);
+      this.clients.set(wallet.name, client);
+    }
+    return client;
+  }
+
+  /**
+   * Makes `wallet` the active wallet and connects to it if needed.
+   */
+  async connect(wallet: Wallet, options?: RequestOptions): Promise<AddressString[]> {
+    await this.setActiveWallet(wallet);
+    return this.handshake(options);
+  }
+
+  /**
+   * Resets the session with `wallet`. It stays active if it was.
+   */
+  async disconnect(wallet: Wallet) {
+    await this.restore();
+    const client = await this.getClient(wallet);
+    await client.reset();
+    await this.updateConnectedWallets((wallets) =>
+      wallets.filter(({ name }) => name !== wallet.name)
+    );
+  }
+
+  async setActiveWallet(wallet: Wallet) {
+    await this.restore();
+    await this.activate(wallet);
+    await this.storage.storeObject(ACTIVE_WALLET_STORAGE_KEY, wallet.name);
+  }
+
+  getActiveWallet(): Wallet | null {
+    return this.activeWallet;
+  }
+
+  /**
+   * Wallets with connected accounts.
+   */
+  getSessions(): WalletSession[] {
+    return [...this.createdClients.values()]
+      .map(({ wallet, client }) => ({ wallet, ...client.getState() }))
+      .filter(({ accounts }) => accounts.length > 0);
+  }
+
+  async handshake(options?: RequestOptions): Promise<AddressString[]> {
+    const { wallet, client } = await this.getActiveSession();
+    const accounts = await client.handshake(options);
+    await this.updateConnectedWallets((wallets) => [
+      ...wallets.filter(({ name }) => name !== wallet.name),
+      wallet,
+    ]);
+    return accounts;
+  }
+
+  async request(request: RequestArguments, options?: RequestOptions) {
+    const { client } = await this.getActiveSession();
+    return client.request(request, options);
+  }
+
+  async reset() {
+    await this.restore();
+    if (!this.activeWallet) return;
+    await this.disconnect(this.activeWallet);
+  }
+
+  getState(): MWPClientState {
+    const session = this.activeWallet && this.createdClients.get(this.activeWallet.name);
+    if (!session) {
+      return { accounts: [], chainId: this.metadata.chainIds?.[0] ?? 1 };
+    }
+    return session.client.getState();
+  }
+
+  /**
+   * Notifies `listener` when the state of the active wallet changes, including
+   * when another wallet becomes active.
+   *
+   * @returns a function that removes the listener.
+   */
+  onStateChange(listener: (state: MWPClientState) => void) {
+    this.events.on('stateChange', listener);
+    return () => {
+      this.events.off('stateChange', listener);
+    };
+  }
+
+  private async getActiveSession(): Promise<{ wallet: Wallet; client: MWPClient }> {
+    await this.restore();
+    const wallet = this.activeWallet;
+    if (!wallet) {
+      throw standardErrors.provider.unauthorized(
+        'No active wallet, call setActiveWallet() or connect() first'
+      );
+    }
+    return { wallet, client: await this.getClient(wallet) };
+  }
+
+  private async activate(wallet: Wallet) {
+    const client = await this.getClient(wallet);
+    this.activeWallet = wallet;
+    this.events.emit('stateChange', client.getState());
+  }
+
+  private async restoreSessions() {
+    const [connectedWallets = [], activeWalletName] = await Promise.all([
+      this.storage.loadObject<Wallet[]>(CONNECTED_WALLETS_STORAGE_KEY),
+      this.storage.loadObject<string>(ACTIVE_WALLET_STORAGE_KEY),
+    ]);
+    await Promise.all(connectedWallets.map((wallet) => this.getClient(wallet)));
+
+    const activeWallet = connectedWallets.find(({ name }) => name === activeWalletName);
+    if (activeWallet) {
+      await this.activate(activeWallet);
+    }
+  }
+
+  private async updateConnectedWallets(update: (wallets: Wallet[]) => Wallet[]) {
+    const wallets = (await this.storage.loadObject<Wallet[]>(CONNECTED_WALLETS_STORAGE_KEY)) ?? [];
+    await this.storage.storeObject(CONNECTED_WALLETS_STORAGE_KEY, update(wallets));
+  }
+
+  private async createClient(wallet: Wallet): Promise<MWPClient> {
+    let client: MWPClient;
+    try {
+      client = await MWPClient.createInstance({
+        ...this.clientOptions?.(wallet),
+        metadata: this.metadata,
+        wallet,
+      });
+    } catch (error) {
+      // allow a later call to try again
+      this.clients.delete(wallet.name);
+      throw error;
+    }
+
+    client.onStateChange((state) => {
+      if (this.activeWallet?.name === wallet.name) {
+        this.events.emit('stateChange', state);
+      }
+    });
+    this.createdClients.set(wallet.name, { wallet, client });
+    return client;
+  }
+}
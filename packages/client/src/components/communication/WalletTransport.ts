@@ -0,0 +1,43 @@
+import { getLaunchResponse, postRequestToWallet } from './postRequestToWallet';
+import { RPCRequestMessage, RPCResponseMessage } from ':core/message';
+import { RequestOptions } from ':core/provider/interface';
+import { Wallet } from ':core/wallet';
+
+/**
+ * Delivers request messages to a wallet and hands back the wallet's response.
+ *
+ * Implement this to route wallet round trips through something other than the
+ * default Capacitor flow, e.g. the system browser, a custom native bridge or an
+ * in-process test wallet.
+ */
+export interface WalletTransport {
+  /**
+   * Implementations should honour `options.timeoutMs` and `options.signal`, rejecting
+   * with `walletTimeout` and `requestCancelled` respectively.
+   */
+  send(request: RPCRequestMessage, options?: RequestOptions): Promise<RPCResponseMessage>;
+  /**
+   * Returns the response that cold-started the app, if the app was killed while the
+   * wallet had a request. Transports that cannot outlive the app can leave this out.
+   */
+  getLaunchResponse?(): Promise<RPCResponseMessage | null>;
+}
+
+/**
+ * Default transport. Opens web wallets in the InAppBrowser and native wallets
+ * through their app link, then waits for the response on the app's custom scheme.
+ */
+export class CapacitorWalletTransport implements WalletTransport {
+  constructor(
+    private readonly appCustomScheme: string,
+    private readonly wallet: Wallet
+  ) {}
+
+  send(request: RPCRequestMessage, options?: RequestOptions): Promise<RPCResponseMessage> {
+    return postRequestToWallet(request, this.appCustomScheme, this.wallet, options);
+  }
+
+  getLaunchResponse(): Promise<RPCResponseMessage | null> {
+    return getLaunchResponse(this.appCustomScheme);
+  }
+}
@@ -1,6 +1,8 @@
 import { InAppBrowser } from "@capacitor/in-app-browser";
 import { App } from "@capacitor/app";
-import { postRequestToWallet } from "./postRequestToWallet";
+import { AppLauncher } from "@capacitor/app-launcher";
+import { Capacitor } from "@capacitor/core";
+import { getLaunchResponse, postRequestToWallet } from "./postRequestToWallet";
 import {
   decodeResponseURLParams,
   encodeRequestURLParams,
@@ -19,6 +21,19 @@ jest.mock("@capacitor/in-app-browser", () => ({
 jest.mock("@capacitor/app", () => ({
   App: {
     addListener: jest.fn(),
+    getLaunchUrl: jest.fn(),
+  },
+}));
+
+jest.mock("@capacitor/app-launcher", () => ({
+  AppLauncher: {
+    openUrl: jest.fn(),
+  },
+}));
+
+jest.mock("@capacitor/core", () => ({
+  Capacitor: {
+    getPlatform: jest.fn(),
   },
 }));
 
@@ -58,6 +73,11 @@ describe("postRequestToWallet", () => {
     timestamp: new Date(),
   };
 
+  // lets the listeners register and the wallet open before events are simulated
+  const flushPromises = async () => {
+    for (let i = 0; i < 5; i++) await Promise.resolve();
+  };
+
   let requestUrl: URL;
   let mockAppListener: any;
   let mockBrowserListener: any;
@@ -98,6 +118,7 @@ describe("postRequestToWallet", () => {
       mockAppCustomScheme,
       webWallet,
     );
+    await flushPromises();
 
     // simulate successful app url open event
     const appUrlOpenCallback = (App.addListener as jest.Mock).mock.calls[0][1];
@@ -135,6 +156,7 @@ describe("postRequestToWallet", () => {
       mockAppCustomScheme,
       webWallet,
     );
+    await flushPromises();
 
     // simulate browser closed event
     const browserClosedCallback = (InAppBrowser.addListener as jest.Mock).mock
@@ -163,7 +185,9 @@ describe("postRequestToWallet", () => {
     // fast-forward past timeout
     jest.advanceTimersByTime(5 * 60 * 1000 + 100);
 
-    await expect(resultPromise).rejects.toThrow("User rejected the request");
+    await expect(resultPromise).rejects.toThrow(
+      "The wallet did not respond in time",
+    );
     expect(mockAppListener.remove).toHaveBeenCalled();
     expect(mockBrowserListener.remove).toHaveBeenCalled();
     expect(InAppBrowser.close).toHaveBeenCalled();
@@ -175,14 +199,288 @@ describe("postRequestToWallet", () => {
       scheme: mockWalletScheme,
     } as Wallet;
 
-    (InAppBrowser.openInWebView as jest.Mock).mockRejectedValue(
-      new Error("Failed to open"),
-    );
+    const error = new Error("Failed to open");
+    (InAppBrowser.openInWebView as jest.Mock).mockRejectedValue(error);
 
     await expect(
       postRequestToWallet(mockRequest, mockAppCustomScheme, webWallet),
-    ).rejects.toThrow("User rejected the request");
+    ).rejects.toMatchObject({ code: 4302, data: { cause: error } });
   });
 
-  // other tests remain the same
+  it("should reject with malformedResponse if the callback cannot be decoded", async () => {
+    const webWallet: Wallet = {
+      type: "web",
+      scheme: mockWalletScheme,
+    } as Wallet;
+    const error = new Error("Missing parameter: content");
+
+    (InAppBrowser.openInWebView as jest.Mock).mockResolvedValue(undefined);
+    (decodeResponseURLParams as jest.Mock).mockImplementation(() => {
+      throw error;
+    });
+
+    const resultPromise = postRequestToWallet(
+      mockRequest,
+      mockAppCustomScheme,
+      webWallet,
+    );
+    await Promise.resolve();
+
+    const appUrlOpenCallback = (App.addListener as jest.Mock).mock.calls[0][1];
+    appUrlOpenCallback({ url: `${mockAppCustomScheme}?response=data` });
+
+    await expect(resultPromise).rejects.toMatchObject({
+      code: 4303,
+      data: { cause: error },
+    });
+  });
+
+  it("should honour a custom timeout", async () => {
+    const webWallet: Wallet = {
+      type: "web",
+      scheme: mockWalletScheme,
+    } as Wallet;
+
+    (InAppBrowser.openInWebView as jest.Mock).mockResolvedValue(undefined);
+
+    const resultPromise = postRequestToWallet(
+      mockRequest,
+      mockAppCustomScheme,
+      webWallet,
+      { timeoutMs: 1000 },
+    );
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(resultPromise).rejects.toMatchObject({ code: 4300 });
+    expect(InAppBrowser.close).toHaveBeenCalled();
+  });
+
+  it("should close the browser and reject when the request is aborted", async () => {
+    const webWallet: Wallet = {
+      type: "web",
+      scheme: mockWalletScheme,
+    } as Wallet;
+    const controller = new AbortController();
+
+    (InAppBrowser.openInWebView as jest.Mock).mockResolvedValue(undefined);
+
+    const resultPromise = postRequestToWallet(
+      mockRequest,
+      mockAppCustomScheme,
+      webWallet,
+      { signal: controller.signal },
+    );
+    await Promise.resolve();
+
+    controller.abort();
+
+    await expect(resultPromise).rejects.toMatchObject({ code: 4301 });
+    expect(InAppBrowser.close).toHaveBeenCalled();
+    expect(mockAppListener.remove).toHaveBeenCalled();
+  });
+
+  it("should not open the wallet when the signal is already aborted", async () => {
+    const webWallet: Wallet = {
+      type: "web",
+      scheme: mockWalletScheme,
+    } as Wallet;
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      postRequestToWallet(mockRequest, mockAppCustomScheme, webWallet, {
+        signal: controller.signal,
+      }),
+    ).rejects.toMatchObject({ code: 4301 });
+    expect(InAppBrowser.openInWebView).not.toHaveBeenCalled();
+  });
+
+  describe("native wallet", () => {
+    const nativeWallet: Wallet = {
+      type: "native",
+      name: "Native Wallet",
+      scheme: "nativewallet://wsegue",
+      storeUrl: {
+        appStore: "https://apps.apple.com/app/id123",
+        googlePlay: "https://play.google.com/store/apps/details?id=wallet",
+      },
+    };
+
+    beforeEach(() => {
+      (AppLauncher.openUrl as jest.Mock).mockResolvedValue({
+        completed: true,
+      });
+    });
+
+    it("should open the wallet app and resolve with the callback response", async () => {
+      (decodeResponseURLParams as jest.Mock).mockReturnValue(mockResponse);
+
+      const resultPromise = postRequestToWallet(
+        mockRequest,
+        mockAppCustomScheme,
+        nativeWallet,
+      );
+      await flushPromises();
+
+      const nativeRequestUrl = new URL(nativeWallet.scheme);
+      nativeRequestUrl.search = encodeRequestURLParams(mockRequest);
+      expect(AppLauncher.openUrl).toHaveBeenCalledWith({
+        url: nativeRequestUrl.toString(),
+      });
+      expect(InAppBrowser.openInWebView).not.toHaveBeenCalled();
+
+      const appUrlOpenCallback = (App.addListener as jest.Mock).mock
+        .calls[0][1];
+      appUrlOpenCallback({ url: `${mockAppCustomScheme}?response=data` });
+
+      await expect(resultPromise).resolves.toEqual(mockResponse);
+      expect(mockAppListener.remove).toHaveBeenCalled();
+    });
+
+    it("should ignore callbacks answering other requests", async () => {
+      (decodeResponseURLParams as jest.Mock)
+        .mockReturnValueOnce({ ...mockResponse, requestId: "9-9-9-9-9" })
+        .mockReturnValueOnce(mockResponse);
+
+      const resultPromise = postRequestToWallet(
+        mockRequest,
+        mockAppCustomScheme,
+        nativeWallet,
+      );
+      await flushPromises();
+
+      const appUrlOpenCallback = (App.addListener as jest.Mock).mock
+        .calls[0][1];
+      await appUrlOpenCallback({
+        url: `${mockAppCustomScheme}?response=stale`,
+      });
+      expect(mockAppListener.remove).not.toHaveBeenCalled();
+
+      await appUrlOpenCallback({ url: `${mockAppCustomScheme}?response=data` });
+      await expect(resultPromise).resolves.toEqual(mockResponse);
+      expect(mockAppListener.remove).toHaveBeenCalled();
+    });
+
+    it("should ignore callbacks for other schemes", async () => {
+      (decodeResponseURLParams as jest.Mock).mockReturnValue(mockResponse);
+
+      const resultPromise = postRequestToWallet(
+        mockRequest,
+        mockAppCustomScheme,
+        nativeWallet,
+      );
+      await flushPromises();
+
+      const appUrlOpenCallback = (App.addListener as jest.Mock).mock
+        .calls[0][1];
+      appUrlOpenCallback({ url: "otherapp://?response=data" });
+      expect(mockAppListener.remove).not.toHaveBeenCalled();
+
+      appUrlOpenCallback({ url: `${mockAppCustomScheme}?response=data` });
+      await expect(resultPromise).resolves.toEqual(mockResponse);
+    });
+
+    it.each([
+      ["ios", "https://apps.apple.com/app/id123"],
+      ["android", "https://play.google.com/store/apps/details?id=wallet"],
+    ])(
+      "should open the store page on %s when the wallet is not installed",
+      async (platform, storeUrl) => {
+        (AppLauncher.openUrl as jest.Mock).mockResolvedValueOnce({
+          completed: false,
+        });
+        (Capacitor.getPlatform as jest.Mock).mockReturnValue(platform);
+
+        await expect(
+          postRequestToWallet(mockRequest, mockAppCustomScheme, nativeWallet),
+        ).rejects.toMatchObject({
+          code: 4302,
+          message: "Native Wallet is not installed",
+        });
+
+        expect(AppLauncher.openUrl).toHaveBeenCalledTimes(2);
+        expect(AppLauncher.openUrl).toHaveBeenLastCalledWith({ url: storeUrl });
+        expect(mockAppListener.remove).toHaveBeenCalled();
+      },
+    );
+
+    it("should throw an error if timeout occurs", async () => {
+      const resultPromise = postRequestToWallet(
+        mockRequest,
+        mockAppCustomScheme,
+        nativeWallet,
+      );
+      await flushPromises();
+
+      jest.advanceTimersByTime(5 * 60 * 1000 + 100);
+
+      await expect(resultPromise).rejects.toThrow(
+        "The wallet did not respond in time",
+      );
+      expect(mockAppListener.remove).toHaveBeenCalled();
+    });
+
+    it("should throw an error if the wallet app fails to open", async () => {
+      const error = new Error("Failed to open");
+      (AppLauncher.openUrl as jest.Mock).mockRejectedValue(error);
+
+      await expect(
+        postRequestToWallet(mockRequest, mockAppCustomScheme, nativeWallet),
+      ).rejects.toMatchObject({ code: 4302, data: { cause: error } });
+      expect(AppLauncher.openUrl).toHaveBeenCalledTimes(1);
+      expect(mockAppListener.remove).toHaveBeenCalled();
+    });
+  });
+});
+
+describe("getLaunchResponse", () => {
+  const mockResponse: RPCResponseMessage = {
+    id: "2-2-3-4-5",
+    requestId: "1-2-3-4-5",
+    content: {
+      encrypted: {
+        iv: new Uint8Array([1]),
+        cipherText: new Uint8Array([2]),
+      },
+    },
+    sender: "some-sender",
+    timestamp: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (decodeResponseURLParams as jest.Mock).mockReturnValue(mockResponse);
+  });
+
+  it("should decode a callback the app was launched with", async () => {
+    (App.getLaunchUrl as jest.Mock).mockResolvedValue({
+      url: `${mockAppCustomScheme}?response=data`,
+    });
+
+    await expect(getLaunchResponse(mockAppCustomScheme)).resolves.toEqual(
+      mockResponse,
+    );
+  });
+
+  it.each([undefined, { url: "otherapp://?response=data" }])(
+    "should return null if the app was not launched by a callback",
+    async (launchUrl) => {
+      (App.getLaunchUrl as jest.Mock).mockResolvedValue(launchUrl);
+
+      await expect(getLaunchResponse(mockAppCustomScheme)).resolves.toBeNull();
+      expect(decodeResponseURLParams).not.toHaveBeenCalled();
+    },
+  );
+
+  it("should return null for malformed callbacks", async () => {
+    (App.getLaunchUrl as jest.Mock).mockResolvedValue({
+      url: `${mockAppCustomScheme}?response=data`,
+    });
+    (decodeResponseURLParams as jest.Mock).mockImplementation(() => {
+      throw new Error("invalid");
+    });
+
+    await expect(getLaunchResponse(mockAppCustomScheme)).resolves.toBeNull();
+  });
 });
@@ -1,107 +1,217 @@
 import { InAppBrowser } from "@capacitor/in-app-browser";
-import { App } from "@capacitor/app";
+import { App, URLOpenListenerEvent } from "@capacitor/app";
+import { AppLauncher } from "@capacitor/app-launcher";
+import { Capacitor, PluginListenerHandle } from "@capacitor/core";
 import { decodeResponseURLParams } from "./utils/encoding";
 import { encodeRequestURLParams } from "./utils/encoding";
 import { standardErrors } from ":core/error";
 import { RPCRequestMessage, RPCResponseMessage } from ":core/message";
+import { RequestOptions } from ":core/provider/interface";
 import { Wallet } from ":core/wallet";
 
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Opens the wallet with a request URL and, for wallets shown inside the app, closes
+ * them again. Everything else about a round trip is shared by all wallet types.
+ */
+type WalletLauncher = {
+  // throws if the wallet cannot be opened; `fail` rejects with an error of its own
+  open(requestUrl: string, fail: (error: unknown) => void): Promise<void>;
+  // listens for the user leaving the wallet without answering
+  onDismiss?(listener: () => void): Promise<PluginListenerHandle>;
+  close?(): Promise<void>;
+};
+
 /**
  * Posts a request to a wallet and waits for the response.
  *
  * @param request - The request to send.
  * @param wallet - The wallet to send the request to.
+ * @param options - Timeout and cancellation for this round trip.
  * @returns A promise that resolves to the response.
  */
 export async function postRequestToWallet(
   request: RPCRequestMessage,
   appCustomScheme: string,
   wallet: Wallet,
+  options: RequestOptions = {},
 ): Promise<RPCResponseMessage> {
-  const { type, scheme } = wallet;
-  if (type === "web") {
-    return new Promise((resolve, reject) => {
-      let listener: any = null;
-      let timeoutId: any = null;
-      let browserClosedListener: any = null;
-
-      // setup app url open listener
-      const setupListener = async () => {
-        listener = await App.addListener("appUrlOpen", async (event) => {
-          if (event.url.startsWith(appCustomScheme)) {
-            // clean up
-            if (listener) listener.remove();
-            if (browserClosedListener) browserClosedListener.remove();
-            if (timeoutId) clearTimeout(timeoutId);
-            await InAppBrowser.close();
-
-            // parse the response
-            try {
-              const { searchParams } = new URL(event.url);
-              const response = decodeResponseURLParams(searchParams);
-              resolve(response);
-            } catch (error) {
-              reject(standardErrors.provider.userRejectedRequest());
-            }
-          }
-        });
+  if (options.signal?.aborted) {
+    throw standardErrors.provider.requestCancelled();
+  }
 
-        // listen for browser closed event
-        browserClosedListener = await InAppBrowser.addListener(
-          "browserClosed",
-          async () => {
-            if (listener) listener.remove();
-            if (browserClosedListener) browserClosedListener.remove();
-            if (timeoutId) clearTimeout(timeoutId);
-            reject(standardErrors.provider.userRejectedRequest());
+  if (wallet.type === "web") {
+    return waitForResponse(request, appCustomScheme, wallet, options, {
+      open: async (url) => {
+        await InAppBrowser.openInWebView({
+          url,
+          options: {
+            showToolbar: true,
+            toolbarPosition: "top",
+            showNavigationButtons: true,
+            closeButtonText: "Close",
+            showURL: true,
           },
-        );
-      };
-
-      // setup timeout to handle user abandoning the flow
-      timeoutId = setTimeout(
-        async () => {
-          if (listener) listener.remove();
-          if (browserClosedListener) browserClosedListener.remove();
-          await InAppBrowser.close();
-          reject(standardErrors.provider.userRejectedRequest());
-        },
-        5 * 60 * 1000,
-      ); // 5 minute timeout
-
-      // generate request URL
-      const requestUrl = new URL(scheme);
-      requestUrl.search = encodeRequestURLParams(request);
-
-      // launch the flow
-      const start = async () => {
-        try {
-          await setupListener();
-          await InAppBrowser.openInWebView({
-            url: requestUrl.toString(),
-            options: {
-              showToolbar: true,
-              toolbarPosition: "top",
-              showNavigationButtons: true,
-              closeButtonText: "Close",
-              showURL: true,
-            },
-          });
-        } catch (error) {
-          if (listener) listener.remove();
-          if (browserClosedListener) browserClosedListener.remove();
-          if (timeoutId) clearTimeout(timeoutId);
-          reject(standardErrors.provider.userRejectedRequest());
-        }
-      };
-
-      start();
+        });
+      },
+      onDismiss: (listener) =>
+        InAppBrowser.addListener("browserClosed", listener),
+      close: () => InAppBrowser.close(),
     });
   }
 
-  if (type === "native") {
-    throw new Error("Native wallet not supported yet");
+  if (wallet.type === "native") {
+    return waitForResponse(request, appCustomScheme, wallet, options, {
+      // open the wallet app without asking whether it is installed first, as
+      // canOpenUrl is false for schemes the app does not declare
+      open: async (url, fail) => {
+        const { completed } = await AppLauncher.openUrl({ url });
+        if (!completed) {
+          await openStoreUrl(wallet);
+          fail(
+            standardErrors.provider.transportFailure(
+              `${wallet.name} is not installed`,
+            ),
+          );
+        }
+      },
+    });
   }
 
   throw new Error("Unsupported wallet type");
 }
+
+async function waitForResponse(
+  request: RPCRequestMessage,
+  appCustomScheme: string,
+  wallet: Wallet,
+  { timeoutMs = DEFAULT_TIMEOUT_MS, signal }: RequestOptions,
+  launcher: WalletLauncher,
+): Promise<RPCResponseMessage> {
+  return new Promise((resolve, reject) => {
+    const listeners: PluginListenerHandle[] = [];
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    let settled = false;
+
+    const cleanup = () => {
+      settled = true;
+      listeners.forEach((listener) => listener.remove());
+      if (timeoutId) clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    // settles the round trip, closing the wallet unless it is already gone
+    const finish = async (settle: () => void, close = true) => {
+      cleanup();
+      if (close) await launcher.close?.();
+      settle();
+    };
+
+    const onAppUrlOpen = async ({ url }: URLOpenListenerEvent) => {
+      if (!url.startsWith(appCustomScheme)) return;
+
+      // parse the response
+      let response: RPCResponseMessage;
+      try {
+        const { searchParams } = new URL(url);
+        response = decodeResponseURLParams(searchParams);
+      } catch (error) {
+        await finish(() =>
+          reject(
+            standardErrors.provider.malformedResponse({
+              data: { cause: error },
+            }),
+          ),
+        );
+        return;
+      }
+
+      // ignore stale callbacks answering other requests
+      if (response.requestId !== request.id) return;
+
+      await finish(() => resolve(response));
+    };
+
+    // cancel the flow when the app aborts the request
+    const onAbort = () =>
+      finish(() => reject(standardErrors.provider.requestCancelled()));
+    signal?.addEventListener("abort", onAbort);
+
+    // setup timeout to handle user abandoning the flow
+    timeoutId = setTimeout(
+      () => finish(() => reject(standardErrors.provider.walletTimeout())),
+      timeoutMs,
+    );
+
+    // listeners added after the round trip settled are removed right away
+    const track = (listener: PluginListenerHandle) => {
+      if (settled) listener.remove();
+      else listeners.push(listener);
+    };
+
+    // generate request URL
+    const requestUrl = new URL(wallet.scheme);
+    requestUrl.search = encodeRequestURLParams(request);
+
+    // launch the flow
+    const start = async () => {
+      try {
+        track(await App.addListener("appUrlOpen", onAppUrlOpen));
+        if (launcher.onDismiss) {
+          track(
+            await launcher.onDismiss(() =>
+              finish(
+                () => reject(standardErrors.provider.userRejectedRequest()),
+                false,
+              ),
+            ),
+          );
+        }
+        if (settled) return;
+
+        await launcher.open(requestUrl.toString(), (error) =>
+          finish(() => reject(error), false),
+        );
+      } catch (error) {
+        cleanup();
+        reject(
+          standardErrors.provider.transportFailure({ data: { cause: error } }),
+        );
+      }
+    };
+
+    start();
+  });
+}
+
+/**
+ * Reads the wallet response the app was launched with.
+ *
+ * When the OS kills the app while the user is in the wallet, the callback deep link
+ * cold-starts the app and no `appUrlOpen` listener is left to receive it.
+ *
+ * @returns `null` if the app was not launched by a valid callback on `appCustomScheme`.
+ */
+export async function getLaunchResponse(
+  appCustomScheme: string,
+): Promise<RPCResponseMessage | null> {
+  const launchUrl = await App.getLaunchUrl();
+  if (!launchUrl?.url.startsWith(appCustomScheme)) return null;
+
+  try {
+    const { searchParams } = new URL(launchUrl.url);
+    return decodeResponseURLParams(searchParams);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Opens the platform store page of a native wallet so the user can install it.
+ */
+async function openStoreUrl(wallet: Extract<Wallet, { type: "native" }>) {
+  const { appStore, googlePlay } = wallet.storeUrl;
+  const url = Capacitor.getPlatform() === "ios" ? appStore : googlePlay;
+  await AppLauncher.openUrl({ url });
+}
@@ -1,5 +1,10 @@
-import { decodeResponseURLParams, encodeRequestURLParams } from './encoding';
-import { MessageID, RPCRequestMessage } from ':core/message';
+import {
+  decodeRequestURLParams,
+  decodeResponseURLParams,
+  encodeRequestURLParams,
+  encodeResponseURLParams,
+} from './encoding';
+import { MessageID, RPCRequestMessage, RPCResponseMessage } from ':core/message';
 
 describe('encoding', () => {
   it('should encode handshake URL params', () => {
@@ -195,3 +200,41 @@ describe('decoding', () => {
     expect(result).toEqual(mockResponse);
   });
 });
+
+describe('wallet side encoding', () => {
+  it('should decode encoded request URL params', () => {
+    const request: RPCRequestMessage = {
+      id: '1' as MessageID,
+      sender: 'sender',
+      sdkVersion: '1.0.0',
+      callbackUrl: 'https://callback.example.com',
+      timestamp: new Date('2021-01-01T00:00:00Z'),
+      content: {
+        encrypted: {
+          iv: new Uint8Array([1, 2, 3]),
+          cipherText: new Uint8Array([4, 5, 6]),
+        },
+      },
+    };
+
+    const params = new URLSearchParams(encodeRequestURLParams(request));
+
+    expect(decodeRequestURLParams(params)).toEqual(request);
+  });
+
+  it('should encode response URL params the app can decode', () => {
+    const response: RPCResponseMessage = {
+      id: '2' as MessageID,
+      requestId: '1' as MessageID,
+      sender: 'sender',
+      timestamp: new Date('2021-01-01T00:00:00Z'),
+      content: {
+        failure: { code: 4001, message: 'User rejected the request.' },
+      },
+    };
+
+    const params = new URLSearchParams(encodeResponseURLParams(response));
+
+    expect(decodeResponseURLParams(params)).toEqual(response);
+  });
+});
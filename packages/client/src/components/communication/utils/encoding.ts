@@ -1,16 +1,25 @@
 import { Buffer } from 'buffer';
 
 import type { SerializedEthereumRpcError } from ':core/error';
-import type { MessageID, RPCRequestMessage, RPCResponseMessage } from ':core/message';
+import type {
+  EncryptedData,
+  MessageID,
+  RPCRequestMessage,
+  RPCResponseMessage,
+} from ':core/message';
 
-type EncodedResponseContent =
-  | { failure: SerializedEthereumRpcError }
-  | {
-      encrypted: {
-        iv: string;
-        cipherText: string;
-      };
-    };
+type EncodedEncryptedContent = {
+  encrypted: {
+    iv: string;
+    cipherText: string;
+  };
+};
+
+type EncodedResponseContent = { failure: SerializedEthereumRpcError } | EncodedEncryptedContent;
+
+type EncodedRequestContent =
+  | Extract<RPCRequestMessage['content'], { handshake: unknown }>
+  | EncodedEncryptedContent;
 
 export function decodeResponseURLParams(params: URLSearchParams): RPCResponseMessage {
   const parseParam = <T>(paramName: string) => {
@@ -27,13 +36,7 @@ export function decodeResponseURLParams(params: URLSearchParams): RPCResponseMes
   }
 
   if ('encrypted' in contentParam) {
-    const { iv, cipherText } = contentParam.encrypted;
-    content = {
-      encrypted: {
-        iv: new Uint8Array(Buffer.from(iv, 'base64')),
-        cipherText: new Uint8Array(Buffer.from(cipherText, 'base64')),
-      },
-    };
+    content = { encrypted: decodeEncryptedData(contentParam.encrypted) };
   }
 
   return {
@@ -45,6 +48,62 @@ export function decodeResponseURLParams(params: URLSearchParams): RPCResponseMes
   };
 }
 
+/**
+ * Wallet side counterpart of `encodeRequestURLParams`.
+ */
+export function decodeRequestURLParams(params: URLSearchParams): RPCRequestMessage {
+  const parseParam = <T>(paramName: string) => {
+    const encodedValue = params.get(paramName);
+    if (!encodedValue) throw new Error(`Missing parameter: ${paramName}`);
+    return JSON.parse(encodedValue) as T;
+  };
+
+  const contentParam = parseParam<EncodedRequestContent>('content');
+
+  let content: RPCRequestMessage['content'];
+  if ('encrypted' in contentParam) {
+    content = { encrypted: decodeEncryptedData(contentParam.encrypted) };
+  } else {
+    content = contentParam;
+  }
+
+  const customScheme = params.get('customScheme');
+  return {
+    id: parseParam<MessageID>('id'),
+    sender: parseParam<string>('sender'),
+    sdkVersion: parseParam<string>('sdkVersion'),
+    callbackUrl: parseParam<string>('callbackUrl'),
+    ...(customScheme ? { customScheme: JSON.parse(customScheme) as string } : {}),
+    timestamp: new Date(parseParam<string>('timestamp')),
+    content,
+  };
+}
+
+/**
+ * Wallet side counterpart of `decodeResponseURLParams`.
+ */
+export function encodeResponseURLParams(response: RPCResponseMessage) {
+  const urlParams = new URLSearchParams();
+  const appendParam = (key: string, value: unknown) => {
+    if (value) urlParams.append(key, JSON.stringify(value));
+  };
+
+  appendParam('id', response.id);
+  appendParam('sender', response.sender);
+  appendParam('requestId', response.requestId);
+  appendParam('timestamp', response.timestamp);
+
+  if ('failure' in response.content) {
+    appendParam('content', response.content);
+  }
+
+  if ('encrypted' in response.content) {
+    appendParam('content', { encrypted: encodeEncryptedData(response.content.encrypted) });
+  }
+
+  return urlParams.toString();
+}
+
 export function encodeRequestURLParams(request: RPCRequestMessage) {
   const urlParams = new URLSearchParams();
   const appendParam = (key: string, value: unknown) => {
@@ -63,16 +122,28 @@ export function encodeRequestURLParams(request: RPCRequestMessage) {
   }
 
   if ('encrypted' in request.content) {
-    const encrypted = request.content.encrypted;
-    const ivBytes = new Uint8Array(encrypted.iv);
-    const cipherTextBytes = new Uint8Array(encrypted.cipherText);
-    appendParam('content', {
-      encrypted: {
-        iv: Buffer.from(ivBytes).toString('base64'),
-        cipherText: Buffer.from(cipherTextBytes).toString('base64'),
-      },
-    });
+    appendParam('content', { encrypted: encodeEncryptedData(request.content.encrypted) });
   }
 
   return urlParams.toString();
 }
+
+function encodeEncryptedData({
+  iv,
+  cipherText,
+}: EncryptedData): EncodedEncryptedContent['encrypted'] {
+  return {
+    iv: Buffer.from(new Uint8Array(iv)).toString('base64'),
+    cipherText: Buffer.from(new Uint8Array(cipherText)).toString('base64'),
+  };
+}
+
+function decodeEncryptedData({
+  iv,
+  cipherText,
+}: EncodedEncryptedContent['encrypted']): EncryptedData {
+  return {
+    iv: new Uint8Array(Buffer.from(iv, 'base64')),
+    cipherText: new Uint8Array(Buffer.from(cipherText, 'base64')),
+  };
+}
@@ -1,5 +1,7 @@
 import { KeyManager } from './KeyManager';
 import { generateKeyPair } from ':core/cipher/cipher';
+import { ScopedPreferencesStorage } from ':core/storage/ScopedPreferencesStorage';
+import { SecureKeyValueStorage } from ':core/storage/SecureKeyValueStorage';
 import { Wallets } from ':core/wallet';
 
 const mockWallet = Wallets.CoinbaseSmartWallet;
@@ -84,6 +86,122 @@ describe('KeyStorage', () => {
     });
   });
 
+  describe('session expiry', () => {
+    const sessionLifetimeMs = 60 * 1000;
+
+    beforeEach(async () => {
+      await keyStorage.clear();
+      keyStorage = new KeyManager({ wallet: mockWallet, sessionLifetimeMs });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should have no session info before the peer public key is set', async () => {
+      expect(await keyStorage.getSessionInfo()).toBeNull();
+    });
+
+    it('should report when the session was created and when it expires', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1_000);
+      const peerKeyPair = await generateKeyPair();
+      await keyStorage.setPeerPublicKey(peerKeyPair.publicKey);
+
+      expect(await keyStorage.getSessionInfo()).toEqual({
+        createdAt: new Date(1_000),
+        expiresAt: new Date(1_000 + sessionLifetimeMs),
+      });
+    });
+
+    it('should rotate the own key pair once the session expires', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+      const peerKeyPair = await generateKeyPair();
+      await keyStorage.setPeerPublicKey(peerKeyPair.publicKey);
+      const ownPublicKey = await keyStorage.getOwnPublicKey();
+
+      now.mockReturnValue(1_000 + sessionLifetimeMs);
+
+      expect(await keyStorage.getSharedSecret()).toBeNull();
+      expect(await keyStorage.getSessionInfo()).toBeNull();
+      expect(await keyStorage.getOwnPublicKey()).not.toBe(ownPublicKey);
+    });
+
+    it('should expire sessions loaded from storage', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+      const peerKeyPair = await generateKeyPair();
+      await keyStorage.setPeerPublicKey(peerKeyPair.publicKey);
+
+      now.mockReturnValue(1_000 + sessionLifetimeMs);
+      const anotherKeyStorage = new KeyManager({ wallet: mockWallet, sessionLifetimeMs });
+
+      expect(await anotherKeyStorage.getSharedSecret()).toBeNull();
+    });
+  });
+
+  describe('storage', () => {
+    it('should keep keys in the given storage', async () => {
+      const storage = new ScopedPreferencesStorage('Secure Wallet', 'KeyManager');
+      const secureStorage = new SecureKeyValueStorage(storage, new Uint8Array(32).fill(7));
+      const secureKeyStorage = new KeyManager({ wallet: mockWallet, storage: secureStorage });
+
+      const ownPublicKey = await secureKeyStorage.getOwnPublicKey();
+
+      const anotherKeyStorage = new KeyManager({ wallet: mockWallet, storage: secureStorage });
+      expect(await anotherKeyStorage.getOwnPublicKey()).toStrictEqual(ownPublicKey);
+      expect(await storage.getItem('ownPrivateKey')).toMatch(/^[0-9a-f]+:[0-9a-f]+$/);
+    });
+
+    it.each([
+      ['stored unencrypted', () => new KeyManager({ wallet: mockWallet })],
+      [
+        'encrypted under another wrapping key',
+        () =>
+          new KeyManager({
+            wallet: mockWallet,
+            storage: new SecureKeyValueStorage(
+              new ScopedPreferencesStorage(mockWallet.name, 'KeyManager'),
+              new Uint8Array(32).fill(1)
+            ),
+          }),
+      ],
+    ])('should replace keys %s', async (_, createPreviousKeyManager) => {
+      const previousKeyStorage = createPreviousKeyManager();
+      const previousPublicKey = await previousKeyStorage.getOwnPublicKey();
+      await previousKeyStorage.setPeerPublicKey((await generateKeyPair()).publicKey);
+
+      const storage = new ScopedPreferencesStorage(mockWallet.name, 'KeyManager');
+      const secureKeyStorage = new KeyManager({
+        wallet: mockWallet,
+        storage: new SecureKeyValueStorage(storage, new Uint8Array(32).fill(2)),
+      });
+
+      expect(await secureKeyStorage.getSharedSecret()).toBeNull();
+      expect(await secureKeyStorage.getOwnPublicKey()).not.toStrictEqual(previousPublicKey);
+      expect(await storage.getItem('peerPublicKey')).toBeNull();
+      expect(await storage.getItem('ownPrivateKey')).toMatch(/^[0-9a-f]+:[0-9a-f]+$/);
+      // leave the default scope readable by the plaintext key managers of other tests
+      await storage.clear();
+    });
+
+    it('should keep keys when the keystore is unavailable', async () => {
+      const storage = new ScopedPreferencesStorage('Locked Wallet', 'KeyManager');
+      const keystore = { getWrappingKey: jest.fn(async () => new Uint8Array(32).fill(3)) };
+      const secureStorage = new SecureKeyValueStorage(storage, keystore);
+      const ownPublicKey = await new KeyManager({
+        wallet: mockWallet,
+        storage: secureStorage,
+      }).getOwnPublicKey();
+      const storedPrivateKey = await storage.getItem('ownPrivateKey');
+
+      keystore.getWrappingKey.mockRejectedValueOnce(new Error('Keystore is locked'));
+      const lockedKeyStorage = new KeyManager({ wallet: mockWallet, storage: secureStorage });
+      await expect(lockedKeyStorage.getOwnPublicKey()).rejects.toThrow('Keystore is locked');
+
+      expect(await storage.getItem('ownPrivateKey')).toEqual(storedPrivateKey);
+      expect(await lockedKeyStorage.getOwnPublicKey()).toStrictEqual(ownPublicKey);
+    });
+  });
+
   describe('clear', () => {
     it('should reset the keys', async () => {
       const ownPublicKey = await keyStorage.getOwnPublicKey();
@@ -6,6 +6,8 @@ import {
 } from ":core/cipher/cipher";
 import { CryptoKey } from ":core/cipher/types";
 import { ScopedPreferencesStorage } from ":core/storage/ScopedPreferencesStorage";
+import { UndecryptableValueError } from ":core/storage/SecureKeyValueStorage";
+import { KeyValueStorage } from ":core/storage/types";
 import { Wallet } from ":core/wallet/";
 
 interface StorageItem {
@@ -24,19 +26,44 @@ const PEER_PUBLIC_KEY = {
   storageKey: "peerPublicKey",
   keyType: "public",
 } as const;
+const SESSION_CREATED_AT_KEY = "sessionCreatedAt";
+
+const DEFAULT_SESSION_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
 type KeyManagerType = {
   wallet: Wallet;
+  /**
+   * How long a shared secret stays valid after the handshake. Once it expires,
+   * the own key pair is rotated and a fresh handshake is required.
+   */
+  sessionLifetimeMs?: number;
+  /**
+   * Where key material is kept. Defaults to Preferences, scoped to the wallet.
+   */
+  storage?: KeyValueStorage;
+};
+
+export type SessionInfo = {
+  createdAt: Date;
+  expiresAt: Date;
 };
 export class KeyManager {
-  private readonly storage: ScopedPreferencesStorage;
+  private readonly storage: KeyValueStorage;
   private ownPrivateKey: CryptoKey | null = null;
   private ownPublicKey: CryptoKey | null = null;
   private peerPublicKey: CryptoKey | null = null;
   private sharedSecret: CryptoKey | null = null;
-
-  constructor({ wallet }: KeyManagerType) {
-    this.storage = new ScopedPreferencesStorage(wallet.name, "KeyManager");
+  private sessionCreatedAt: number | null = null;
+  private readonly sessionLifetimeMs: number;
+
+  constructor({
+    wallet,
+    sessionLifetimeMs = DEFAULT_SESSION_LIFETIME_MS,
+    storage,
+  }: KeyManagerType) {
+    this.storage =
+      storage ?? new ScopedPreferencesStorage(wallet.name, "KeyManager");
+    this.sessionLifetimeMs = sessionLifetimeMs;
   }
 
   async getOwnPublicKey(): Promise<CryptoKey> {
@@ -50,10 +77,24 @@ export class KeyManager {
     return this.sharedSecret;
   }
 
+  // returns null if there is no session with a peer
+  async getSessionInfo(): Promise<SessionInfo | null> {
+    await this.loadKeysIfNeeded();
+    if (this.sharedSecret === null || this.sessionCreatedAt === null) {
+      return null;
+    }
+
+    return {
+      createdAt: new Date(this.sessionCreatedAt),
+      expiresAt: new Date(this.sessionCreatedAt + this.sessionLifetimeMs),
+    };
+  }
+
   async setPeerPublicKey(key: CryptoKey) {
     this.sharedSecret = null;
     this.peerPublicKey = key;
     await this.storeKey(PEER_PUBLIC_KEY, key);
+    await this.storeSessionCreatedAt(Date.now());
     await this.loadKeysIfNeeded();
   }
 
@@ -62,11 +103,13 @@ export class KeyManager {
     this.ownPublicKey = null;
     this.peerPublicKey = null;
     this.sharedSecret = null;
+    this.sessionCreatedAt = null;
 
     await Promise.all([
       this.storage.removeItem(OWN_PUBLIC_KEY.storageKey),
       this.storage.removeItem(OWN_PRIVATE_KEY.storageKey),
       this.storage.removeItem(PEER_PUBLIC_KEY.storageKey),
+      this.storage.removeItem(SESSION_CREATED_AT_KEY),
     ]);
   }
 
@@ -79,6 +122,21 @@ export class KeyManager {
   }
 
   private async loadKeysIfNeeded() {
+    try {
+      await this.loadStoredKeys();
+    } catch (error) {
+      // keys that cannot be decrypted, e.g. stored unencrypted or under a rotated
+      // wrapping key, are no use to a session; start over with fresh ones. Other
+      // errors, such as a locked keystore, may pass, so the keys are kept
+      if (!(error instanceof UndecryptableValueError)) throw error;
+      await this.clear();
+      await this.loadStoredKeys();
+    }
+  }
+
+  private async loadStoredKeys() {
+    await this.rotateKeysIfExpired();
+
     if (this.ownPrivateKey === null) {
       this.ownPrivateKey = await this.loadKey(OWN_PRIVATE_KEY);
     }
@@ -104,8 +162,34 @@ export class KeyManager {
     }
   }
 
+  private async rotateKeysIfExpired() {
+    if (this.sessionCreatedAt === null) {
+      const storedCreatedAt = await this.storage.getItem(
+        SESSION_CREATED_AT_KEY,
+      );
+      if (storedCreatedAt) {
+        this.sessionCreatedAt = Number(storedCreatedAt);
+      } else if (await this.storage.getItem(PEER_PUBLIC_KEY.storageKey)) {
+        // sessions stored before expiry was tracked start their lifetime now
+        await this.storeSessionCreatedAt(Date.now());
+      }
+    }
+
+    if (
+      this.sessionCreatedAt !== null &&
+      Date.now() >= this.sessionCreatedAt + this.sessionLifetimeMs
+    ) {
+      await this.clear();
+    }
+  }
+
   // storage methods
 
+  private async storeSessionCreatedAt(createdAt: number) {
+    this.sessionCreatedAt = createdAt;
+    await this.storage.setItem(SESSION_CREATED_AT_KEY, createdAt.toString());
+  }
+
   private async loadKey(item: StorageItem): Promise<CryptoKey | null> {
     const key = await this.storage.getItem(item.storageKey);
     if (!key) return null;
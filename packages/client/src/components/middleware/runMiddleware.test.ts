@@ -0,0 +1,93 @@
+import { RequestMiddleware, runMiddleware } from './runMiddleware';
+import { standardErrors } from ':core/error';
+
+describe('runMiddleware', () => {
+  const request = { method: 'eth_blockNumber' };
+  let handler: jest.Mock;
+
+  beforeEach(() => {
+    handler = jest.fn(async ({ method }) => `${method} result`);
+  });
+
+  it('should call the handler without middleware', async () => {
+    await expect(runMiddleware([], request, undefined, handler)).resolves.toBe(
+      'eth_blockNumber result'
+    );
+    expect(handler).toHaveBeenCalledWith(request);
+  });
+
+  it('should run middleware in order', async () => {
+    const calls: string[] = [];
+    const middleware: RequestMiddleware[] = [
+      async (_request, next) => {
+        calls.push('first');
+        return next();
+      },
+      async (_request, next) => {
+        calls.push('second');
+        return next();
+      },
+    ];
+
+    await runMiddleware(middleware, request, undefined, handler);
+
+    expect(calls).toEqual(['first', 'second']);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let middleware replace the request', async () => {
+    const middleware: RequestMiddleware = async (request, next) =>
+      next({ ...request, method: 'eth_gasPrice' });
+
+    await expect(runMiddleware([middleware], request, undefined, handler)).resolves.toBe(
+      'eth_gasPrice result'
+    );
+  });
+
+  it('should let middleware answer the request', async () => {
+    const middleware: RequestMiddleware = async () => '0x1';
+
+    await expect(runMiddleware([middleware], request, undefined, handler)).resolves.toBe('0x1');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should let middleware post-process results and errors', async () => {
+    const middleware: RequestMiddleware = async (_request, next) => {
+      try {
+        return `${await next()}!`;
+      } catch {
+        return 'recovered';
+      }
+    };
+
+    await expect(runMiddleware([middleware], request, undefined, handler)).resolves.toBe(
+      'eth_blockNumber result!'
+    );
+
+    handler.mockRejectedValueOnce(standardErrors.rpc.internal());
+    await expect(runMiddleware([middleware], request, undefined, handler)).resolves.toBe(
+      'recovered'
+    );
+  });
+
+  it('should pass request options to middleware', async () => {
+    const middleware = jest.fn(async (_request, next) => next());
+    const options = { signal: new AbortController().signal };
+
+    await runMiddleware([middleware], request, options, handler);
+
+    expect(middleware).toHaveBeenCalledWith(request, expect.any(Function), options);
+  });
+
+  it('should reject a second call to next', async () => {
+    const middleware: RequestMiddleware = async (_request, next) => {
+      await next();
+      return next();
+    };
+
+    await expect(runMiddleware([middleware], request, undefined, handler)).rejects.toThrow(
+      'more than once'
+    );
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,44 @@
+import { RequestArguments, RequestOptions } from ':core/provider/interface';
+
+/**
+ * Runs before a request is handled, in the order registered.
+ *
+ * Call `next` to pass the request on, optionally replaced, and resolve with what it
+ * resolves to, possibly transformed. Resolve without calling `next` to answer the
+ * request yourself, or throw to reject it.
+ */
+export type RequestMiddleware = (
+  request: RequestArguments,
+  next: (request?: RequestArguments) => Promise<unknown>,
+  options?: RequestOptions
+) => Promise<unknown>;
+
+/**
+ * Passes `request` through `middleware`, then to `handler` if every middleware
+ * calls `next`.
+ */
+export async function runMiddleware(
+  middleware: readonly RequestMiddleware[],
+  request: RequestArguments,
+  options: RequestOptions | undefined,
+  handler: (request: RequestArguments) => Promise<unknown>
+): Promise<unknown> {
+  const dispatch = async (index: number, request: RequestArguments): Promise<unknown> => {
+    const current = middleware[index];
+    if (!current) return handler(request);
+
+    let called = false;
+    return current(
+      request,
+      async (nextRequest = request) => {
+        if (called)
+          throw new Error(`Middleware called next() more than once for ${request.method}`);
+        called = true;
+        return dispatch(index + 1, nextRequest);
+      },
+      options
+    );
+  };
+
+  return dispatch(0, request);
+}
@@ -0,0 +1,108 @@
+import {
+  migrateStorage,
+  SCHEMA_VERSION_KEY,
+  STORAGE_MIGRATIONS,
+  StorageMigration,
+} from './migrateStorage';
+import { InMemoryStorage } from ':core/storage/InMemoryStorage';
+
+describe('migrateStorage', () => {
+  let storage: InMemoryStorage;
+  let migrations: StorageMigration[];
+  let applied: number[];
+
+  beforeEach(() => {
+    storage = new InMemoryStorage('Test Wallet', 'MWPClient');
+    applied = [];
+    migrations = [1, 2, 3].map((version) => ({
+      version,
+      migrate: async () => {
+        applied.push(version);
+      },
+    }));
+  });
+
+  it('should run every migration on unversioned storage', async () => {
+    await migrateStorage(storage, migrations);
+
+    expect(applied).toEqual([1, 2, 3]);
+    expect(await storage.loadObject(SCHEMA_VERSION_KEY)).toBe(3);
+  });
+
+  it('should only run migrations newer than the stored version', async () => {
+    await storage.storeObject(SCHEMA_VERSION_KEY, 2);
+
+    await migrateStorage(storage, migrations);
+
+    expect(applied).toEqual([3]);
+  });
+
+  it('should record the version of each completed migration', async () => {
+    migrations[2].migrate = async () => {
+      throw new Error('failed');
+    };
+
+    await expect(migrateStorage(storage, migrations)).rejects.toThrow('failed');
+    expect(await storage.loadObject(SCHEMA_VERSION_KEY)).toBe(2);
+  });
+
+  it('should throw if the storage was written by a newer schema', async () => {
+    await storage.storeObject(SCHEMA_VERSION_KEY, 4);
+
+    await expect(migrateStorage(storage, migrations)).rejects.toThrow(
+      'Stored schema version 4 is newer than 3'
+    );
+    expect(applied).toEqual([]);
+  });
+
+  it('should migrate the stored data', async () => {
+    await storage.storeObject('activeChain', { chainId: 1 });
+    const chainMigration: StorageMigration = {
+      version: 1,
+      migrate: async (migrated) => {
+        const chain = await migrated.loadObject<{ chainId: number }>('activeChain');
+        await migrated.storeObject('activeChain', { id: chain?.chainId });
+      },
+    };
+
+    await migrateStorage(storage, [chainMigration]);
+
+    expect(await storage.loadObject('activeChain')).toEqual({ id: 1 });
+  });
+
+  it('should add a timestamp to stored capabilities', async () => {
+    await storage.storeObject(SCHEMA_VERSION_KEY, 1);
+    await storage.storeObject('accounts', ['0xAddress']);
+    await storage.storeObject('walletCapabilities', { '0x1': {} });
+
+    await migrateStorage(storage, STORAGE_MIGRATIONS);
+
+    expect(await storage.loadObject('walletCapabilities')).toEqual({
+      '0xaddress': { capabilities: { '0x1': {} }, updatedAt: 0 },
+    });
+  });
+
+  it('should not wrap stored capabilities twice', async () => {
+    const stored = { capabilities: { '0x1': {} }, updatedAt: 1000 };
+    await storage.storeObject('accounts', ['0xAddress']);
+    await storage.storeObject('walletCapabilities', stored);
+
+    await migrateStorage(storage, STORAGE_MIGRATIONS);
+
+    expect(await storage.loadObject('walletCapabilities')).toEqual({ '0xaddress': stored });
+  });
+
+  it('should store capabilities for each connected account', async () => {
+    const stored = { capabilities: { '0x1': {} }, updatedAt: 1000 };
+    await storage.storeObject(SCHEMA_VERSION_KEY, 2);
+    await storage.storeObject('accounts', ['0xAddressA', '0xAddressB']);
+    await storage.storeObject('walletCapabilities', stored);
+
+    await migrateStorage(storage, STORAGE_MIGRATIONS);
+
+    expect(await storage.loadObject('walletCapabilities')).toEqual({
+      '0xaddressa': stored,
+      '0xaddressb': stored,
+    });
+  });
+});
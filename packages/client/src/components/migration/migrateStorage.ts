@@ -0,0 +1,70 @@
+import { KeyValueStorage } from ':core/storage/types';
+
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+export type StorageMigration = {
+  // schema version the storage is at once this migration has run
+  version: number;
+  migrate(storage: KeyValueStorage): Promise<void>;
+};
+
+/**
+ * Migrations for persisted client state, in ascending version order.
+ * Append a migration whenever the shape of a stored value changes.
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    // the layout before versioning was introduced; stored data is already in this shape
+    version: 1,
+    migrate: async () => {},
+  },
+  {
+    // wallet capabilities are stored with the time the wallet reported them
+    version: 2,
+    migrate: async (storage) => {
+      const capabilities = await storage.loadObject<object>('walletCapabilities');
+      // skip values this migration already wrapped
+      if (capabilities && !('capabilities' in capabilities && 'updatedAt' in capabilities)) {
+        await storage.storeObject('walletCapabilities', { capabilities, updatedAt: 0 });
+      }
+    },
+  },
+  {
+    // wallet capabilities are stored per account, keyed by lower-cased address
+    version: 3,
+    migrate: async (storage) => {
+      const capabilities = await storage.loadObject<object>('walletCapabilities');
+      if (!capabilities) return;
+      // they were returned for every connected account, so keep that
+      const accounts = (await storage.loadObject<string[]>('accounts')) ?? [];
+      await storage.storeObject(
+        'walletCapabilities',
+        Object.fromEntries(accounts.map((account) => [account.toLowerCase(), capabilities]))
+      );
+    },
+  },
+];
+
+/**
+ * Brings `storage` up to the latest schema version, running each pending migration
+ * in order and recording the version after each one.
+ *
+ * Throws if the storage was written by a newer schema, which this version cannot read.
+ */
+export async function migrateStorage(
+  storage: KeyValueStorage,
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS
+) {
+  const storedVersion = (await storage.loadObject<number>(SCHEMA_VERSION_KEY)) ?? 0;
+  const latestVersion = migrations[migrations.length - 1]?.version ?? 0;
+  if (storedVersion > latestVersion) {
+    throw new Error(`Stored schema version ${storedVersion} is newer than ${latestVersion}`);
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= storedVersion) continue;
+
+    await migration.migrate(storage);
+    await storage.storeObject(SCHEMA_VERSION_KEY, migration.version);
+  }
+}
@@ -0,0 +1,101 @@
+import { RequestQueue } from './RequestQueue';
+import { standardErrorCodes } from ':core/error';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('RequestQueue', () => {
+  let queue: RequestQueue;
+
+  beforeEach(() => {
+    queue = new RequestQueue();
+  });
+
+  it('should run tasks one at a time in order', async () => {
+    const first = deferred<string>();
+    const second = jest.fn().mockResolvedValue('second');
+
+    const firstResult = queue.enqueue('personal_sign', () => first.promise);
+    const secondResult = queue.enqueue('eth_sendTransaction', second);
+    await flushPromises();
+
+    expect(second).not.toHaveBeenCalled();
+
+    first.resolve('first');
+    await expect(firstResult).resolves.toBe('first');
+    await expect(secondResult).resolves.toBe('second');
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep running after a task fails', async () => {
+    const failed = queue.enqueue('personal_sign', () => Promise.reject(new Error('nope')));
+    const next = queue.enqueue('eth_sendTransaction', () => Promise.resolve('0xHash'));
+
+    await expect(failed).rejects.toThrow('nope');
+    await expect(next).resolves.toBe('0xHash');
+  });
+
+  it('should expose the queued requests', async () => {
+    const first = deferred<void>();
+    const states: unknown[] = [];
+    queue.on('change', (state) => states.push(state));
+
+    const firstResult = queue.enqueue('personal_sign', () => first.promise);
+    const secondResult = queue.enqueue('eth_sendTransaction', () => Promise.resolve());
+    await flushPromises();
+
+    expect(queue.getState()).toEqual({
+      requests: [
+        { method: 'personal_sign', inProgress: true },
+        { method: 'eth_sendTransaction', inProgress: false },
+      ],
+    });
+
+    first.resolve();
+    await Promise.all([firstResult, secondResult]);
+    await flushPromises();
+
+    expect(queue.getState()).toEqual({ requests: [] });
+    expect(states.length).toBeGreaterThan(0);
+    expect(states[states.length - 1]).toEqual({ requests: [] });
+  });
+
+  it('should drop queued tasks when their signal aborts', async () => {
+    const first = deferred<void>();
+    const controller = new AbortController();
+    const second = jest.fn();
+
+    const firstResult = queue.enqueue('personal_sign', () => first.promise);
+    const secondResult = queue.enqueue('eth_sendTransaction', second, controller.signal);
+    controller.abort();
+
+    await expect(secondResult).rejects.toMatchObject({
+      code: standardErrorCodes.provider.requestCancelled,
+    });
+    expect(queue.getState().requests).toEqual([{ method: 'personal_sign', inProgress: true }]);
+
+    first.resolve();
+    await firstResult;
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should reject right away if the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const task = jest.fn();
+
+    await expect(queue.enqueue('personal_sign', task, controller.signal)).rejects.toMatchObject({
+      code: standardErrorCodes.provider.requestCancelled,
+    });
+    expect(task).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { EventEmitter } from 'eventemitter3';
+
+import { standardErrors } from ':core/error';
+
+export type QueuedRequest = {
+  method: string;
+  // true while the request is with the wallet
+  inProgress: boolean;
+};
+
+export type RequestQueueState = {
+  requests: QueuedRequest[];
+};
+
+type QueueEntry = QueuedRequest & {
+  run: () => Promise<void>;
+};
+
+type RequestQueueEvents = {
+  change: [RequestQueueState];
+};
+
+/**
+ * Runs wallet round trips one at a time, in the order they were requested.
+ *
+ * Only one request can be shown by the wallet at once, and callbacks are matched
+ * to a single pending request, so concurrent round trips must wait their turn.
+ */
+export class RequestQueue extends EventEmitter<RequestQueueEvents> {
+  private readonly entries: QueueEntry[] = [];
+  private running = false;
+
+  /**
+   * Queues `task` and settles with its outcome once it has run.
+   * Aborting `signal` before the task starts removes it from the queue.
+   */
+  enqueue<T>(method: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(standardErrors.provider.requestCancelled());
+        return;
+      }
+
+      const onAbort = () => {
+        if (entry.inProgress) return; // the task handles its own cancellation
+        this.entries.splice(this.entries.indexOf(entry), 1);
+        this.emitChange();
+        reject(standardErrors.provider.requestCancelled());
+      };
+
+      const entry: QueueEntry = {
+        method,
+        inProgress: false,
+        run: async () => {
+          try {
+            resolve(await task());
+          } catch (error) {
+            reject(error);
+          } finally {
+            signal?.removeEventListener('abort', onAbort);
+          }
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      this.entries.push(entry);
+      this.emitChange();
+      this.runNext();
+    });
+  }
+
+  getState(): RequestQueueState {
+    return {
+      requests: this.entries.map(({ method, inProgress }) => ({ method, inProgress })),
+    };
+  }
+
+  private async runNext() {
+    if (this.running || this.entries.length === 0) return;
+
+    this.running = true;
+    const entry = this.entries[0];
+    entry.inProgress = true;
+    this.emitChange();
+
+    await entry.run();
+
+    this.entries.shift();
+    this.running = false;
+    this.emitChange();
+    this.runNext();
+  }
+
+  private emitChange() {
+    this.emit('change', this.getState());
+  }
+}
@@ -19,6 +19,10 @@ interface ErrorCodes {
     readonly disconnected: 4900;
     readonly chainDisconnected: 4901;
     readonly unsupportedChain: 4902;
+    readonly walletTimeout: 4300;
+    readonly requestCancelled: 4301;
+    readonly transportFailure: 4302;
+    readonly malformedResponse: 4303;
   };
 }
 
@@ -43,6 +47,10 @@ export const standardErrorCodes: ErrorCodes = {
     disconnected: 4900,
     chainDisconnected: 4901,
     unsupportedChain: 4902,
+    walletTimeout: 4300,
+    requestCancelled: 4301,
+    transportFailure: 4302,
+    malformedResponse: 4303,
   },
 };
 
@@ -116,4 +124,48 @@ export const errorValues = {
     standard: 'EIP-3085',
     message: 'Unrecognized chain ID.',
   },
+  '4300': {
+    standard: 'Mobile Wallet Protocol',
+    message: 'The wallet did not respond in time.',
+  },
+  '4301': {
+    standard: 'Mobile Wallet Protocol',
+    message: 'The request was cancelled by the app.',
+  },
+  '4302': {
+    standard: 'Mobile Wallet Protocol',
+    message: 'The request could not be delivered to the wallet.',
+  },
+  '4303': {
+    standard: 'Mobile Wallet Protocol',
+    message: 'The wallet response could not be decoded.',
+  },
+  '5700': {
+    standard: 'EIP-5792',
+    message: 'The wallet does not support a required capability.',
+  },
+  '5710': {
+    standard: 'EIP-5792',
+    message: 'The wallet does not support the requested chain.',
+  },
+  '5720': {
+    standard: 'EIP-5792',
+    message: 'A call bundle with this ID was already submitted.',
+  },
+  '5730': {
+    standard: 'EIP-5792',
+    message: 'The call bundle ID is unknown to the wallet.',
+  },
+  '5740': {
+    standard: 'EIP-5792',
+    message: 'The call bundle is too large for the wallet.',
+  },
+  '5750': {
+    standard: 'EIP-5792',
+    message: 'The user rejected upgrading the account to support atomic calls.',
+  },
+  '5760': {
+    standard: 'EIP-5792',
+    message: 'The wallet cannot execute the calls atomically.',
+  },
 };
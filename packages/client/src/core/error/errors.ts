@@ -45,6 +45,19 @@ export const standardErrors = {
 
     limitExceeded: <T>(arg?: EthErrorsArg<T>) =>
       getEthJsonRpcError(standardErrorCodes.rpc.limitExceeded, arg),
+
+    custom: <T>(opts: CustomErrorArg<T>) => {
+      if (!opts || typeof opts !== 'object' || Array.isArray(opts)) {
+        throw new Error('Ethereum RPC custom errors must provide single object argument.');
+      }
+
+      const { code, message, data } = opts;
+
+      if (!message || typeof message !== 'string') {
+        throw new Error('"message" must be a nonempty string');
+      }
+      return new EthereumRpcError(code, message, data);
+    },
   },
 
   provider: {
@@ -72,6 +85,22 @@ export const standardErrors = {
       return getEthProviderError(standardErrorCodes.provider.unsupportedChain, arg);
     },
 
+    walletTimeout: <T>(arg?: EthErrorsArg<T>) => {
+      return getEthProviderError(standardErrorCodes.provider.walletTimeout, arg);
+    },
+
+    requestCancelled: <T>(arg?: EthErrorsArg<T>) => {
+      return getEthProviderError(standardErrorCodes.provider.requestCancelled, arg);
+    },
+
+    transportFailure: <T>(arg?: EthErrorsArg<T>) => {
+      return getEthProviderError(standardErrorCodes.provider.transportFailure, arg);
+    },
+
+    malformedResponse: <T>(arg?: EthErrorsArg<T>) => {
+      return getEthProviderError(standardErrorCodes.provider.malformedResponse, arg);
+    },
+
     custom: <T>(opts: CustomErrorArg<T>) => {
       if (!opts || typeof opts !== 'object' || Array.isArray(opts)) {
         throw new Error('Ethereum Provider custom errors must provide single object argument.');
@@ -39,6 +39,14 @@ describe('serializeError', () => {
     expect(serialized.docUrl).toContain(`code=${standardErrorCodes.provider.unsupportedChain}`);
   });
 
+  test('with EIP-5792 wallet error', () => {
+    const error = { code: 5730, message: 'Unknown bundle id' };
+
+    const serialized = serializeError(error);
+    expect(serialized.code).toEqual(5730);
+    expect(serialized.message).toEqual('Unknown bundle id');
+  });
+
   test('with Error object', () => {
     const error = new Error('test Error object');
 
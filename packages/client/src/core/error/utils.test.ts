@@ -42,6 +42,23 @@ describe('errors', () => {
     expect(getMessageFromCode(0)).toEqual('Unspecified error message.');
   });
 
+  test('wallet round trip errors', () => {
+    const cause = new Error('Failed to open');
+    const transportFailure = standardErrors.provider.transportFailure({ data: { cause } });
+    expect(transportFailure.code).toEqual(standardErrorCodes.provider.transportFailure);
+    expect(transportFailure.data).toEqual({ cause });
+
+    expect(standardErrors.provider.walletTimeout().message).toEqual(
+      expect.stringContaining('did not respond')
+    );
+    expect(standardErrors.provider.requestCancelled().message).toEqual(
+      expect.stringContaining('cancelled')
+    );
+    expect(standardErrors.provider.malformedResponse().message).toEqual(
+      expect.stringContaining('could not be decoded')
+    );
+  });
+
   test('unsupportedChain error', () => {
     const errorWithoutChainID = standardErrors.provider.unsupportedChain();
     expect(errorWithoutChainID.code).toEqual(standardErrorCodes.provider.unsupportedChain);
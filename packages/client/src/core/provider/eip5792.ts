@@ -0,0 +1,66 @@
+// Call bundles, https://eips.ethereum.org/EIPS/eip-5792
+
+type Hex = `0x${string}`;
+
+export type Call = {
+  to?: Hex;
+  data?: Hex;
+  value?: Hex;
+  capabilities?: Record<string, unknown>;
+};
+
+/**
+ * The single param of `wallet_sendCalls`.
+ */
+export type SendCallsParams = {
+  version: string;
+  id?: string;
+  from?: Hex;
+  chainId: Hex;
+  atomicRequired: boolean;
+  calls: Call[];
+  capabilities?: Record<string, unknown>;
+};
+
+export type SendCallsResult = {
+  id: string;
+  capabilities?: Record<string, unknown>;
+};
+
+/**
+ * The result of `wallet_getCapabilities`: capabilities by hex chain id, with `0x0`
+ * for capabilities on every chain.
+ */
+export type GetCapabilitiesResult = Record<Hex, Record<string, unknown>>;
+
+export type CallsReceipt = {
+  logs: { address: Hex; data: Hex; topics: Hex[] }[];
+  // 0x1 for success, 0x0 for failure
+  status: Hex;
+  blockHash: Hex;
+  blockNumber: Hex;
+  gasUsed: Hex;
+  transactionHash: Hex;
+};
+
+export type CallsStatus = {
+  version: string;
+  id: string;
+  chainId: Hex;
+  /**
+   * 100 while pending, 200 once confirmed, and 400, 500 or 600 if the bundle failed
+   * offchain, reverted, or partially reverted. Wallets on the first version of
+   * EIP-5792 report `'PENDING'` or `'CONFIRMED'` instead.
+   */
+  status: number | 'PENDING' | 'CONFIRMED';
+  atomic: boolean;
+  receipts?: CallsReceipt[];
+  capabilities?: Record<string, unknown>;
+};
+
+/**
+ * Whether the bundle has been confirmed or has failed, so its status will not change.
+ */
+export function isFinalCallsStatus({ status }: CallsStatus) {
+  return typeof status === 'number' ? status >= 200 : status === 'CONFIRMED';
+}
@@ -5,6 +5,23 @@ export interface RequestArguments {
   readonly params?: readonly unknown[] | object;
 }
 
+export interface RequestOptions {
+  /**
+   * How long to wait for the wallet before rejecting with `walletTimeout`.
+   * Defaults to 5 minutes.
+   */
+  readonly timeoutMs?: number;
+  /**
+   * Cancels a pending wallet round trip, rejecting with `requestCancelled`.
+   */
+  readonly signal?: AbortSignal;
+  /**
+   * The chain to read from, and for the wallet to sign on, instead of the active
+   * chain. The active chain does not change.
+   */
+  readonly chainId?: number;
+}
+
 export interface ProviderRpcError extends Error {
   message: string;
   code: number;
@@ -25,7 +42,7 @@ type ProviderEventMap = {
 export class ProviderEventEmitter extends EventEmitter<keyof ProviderEventMap> {}
 
 export interface ProviderInterface extends ProviderEventEmitter {
-  request(args: RequestArguments): Promise<unknown>;
+  request(args: RequestArguments, options?: RequestOptions): Promise<unknown>;
   disconnect(): Promise<void>;
   emit<K extends keyof ProviderEventMap>(event: K, ...args: [ProviderEventMap[K]]): boolean;
   on<K extends keyof ProviderEventMap>(event: K, listener: (_: ProviderEventMap[K]) => void): this;
@@ -49,7 +66,7 @@ export interface AppMetadata {
   /**
    * @param chainIds
    * @type {number[]}
-   * @description Array of chainIds in number your dapp supports
+   * @description Array of chainIds in number your dapp supports. The first is the default chain, and no other chains can be used
    */
   chainIds?: number[];
   /**
@@ -0,0 +1,87 @@
+import { RPCCache } from './RPCCache';
+import { InMemoryStorage } from ':core/storage/InMemoryStorage';
+
+describe('RPCCache', () => {
+  let storage: InMemoryStorage;
+  let cache: RPCCache;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage('Test Wallet', 'RPCCache');
+    cache = new RPCCache(storage, 1000);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should cache calls at a fixed block', async () => {
+    const request = { method: 'eth_call', params: [{ to: '0xA', data: '0x1234' }, '0x10'] };
+    await cache.set(1, request, '0xResult');
+
+    expect(await cache.get(1, request)).toEqual({ result: '0xResult' });
+    expect(await cache.get(2, request)).toBeUndefined();
+  });
+
+  it('should ignore the case of params', async () => {
+    await cache.set(1, { method: 'eth_getCode', params: ['0xAbC', '0x10'] }, '0xCode');
+
+    expect(await cache.get(1, { method: 'eth_getCode', params: ['0xabc', '0x10'] })).toEqual({
+      result: '0xCode',
+    });
+  });
+
+  it.each([
+    { method: 'eth_call', params: [{ to: '0xA' }, 'latest'] },
+    { method: 'eth_getCode', params: ['0xA', 'pending'] },
+    { method: 'eth_getTransactionReceipt', params: ['0xHash'] },
+    { method: 'eth_getBalance', params: ['0xA', '0x10'] },
+    { method: 'eth_chainId' },
+  ])('should not cache $method with $params', async (request) => {
+    await cache.set(1, request, request.method === 'eth_getTransactionReceipt' ? null : '0x1');
+
+    expect(await cache.get(1, request)).toBeUndefined();
+  });
+
+  it('should cache mined receipts until a newer block is seen', async () => {
+    const request = { method: 'eth_getTransactionReceipt', params: ['0xHash'] };
+    await cache.set(1, { method: 'eth_blockNumber' }, '0x10');
+    await cache.set(1, request, { status: '0x1' });
+
+    expect(await cache.get(1, request)).toEqual({ result: { status: '0x1' } });
+
+    await cache.set(1, { method: 'eth_blockNumber' }, '0x11');
+    expect(await cache.get(1, request)).toBeUndefined();
+  });
+
+  it('should expire entries after the TTL', async () => {
+    jest.useFakeTimers();
+    const request = { method: 'eth_getCode', params: ['0xA', '0x10'] };
+    await cache.set(1, request, '0xCode');
+
+    jest.advanceTimersByTime(1000);
+
+    expect(await cache.get(1, request)).toBeUndefined();
+  });
+
+  it('should invalidate latest-block entries when a newer block is seen', async () => {
+    const request = { method: 'eth_getCode', params: ['0xA', 'latest'] };
+    await cache.set(1, request, '0xCode');
+    expect(await cache.get(1, request)).toBeUndefined();
+
+    await cache.set(1, { method: 'eth_blockNumber' }, '0x10');
+    await cache.set(1, request, '0xCode');
+    await cache.set(1, { method: 'eth_blockNumber' }, '0x10');
+    expect(await cache.get(1, request)).toEqual({ result: '0xCode' });
+
+    await cache.set(1, { method: 'eth_blockNumber' }, '0x11');
+    expect(await cache.get(1, request)).toBeUndefined();
+  });
+
+  it('should clear its entries', async () => {
+    const request = { method: 'eth_getCode', params: ['0xA', '0x10'] };
+    await cache.set(1, request, '0xCode');
+    await cache.clear();
+
+    expect(await cache.get(1, request)).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+import { RequestArguments } from ':core/provider/interface';
+import { KeyValueStorage } from ':core/storage/types';
+import { has0xPrefix, intNumberFromHexString, isHexString } from ':core/type/util';
+
+export type RPCCacheOptions = {
+  /**
+   * Where cached responses are kept. Defaults to memory. Pass a storage of its own,
+   * as clearing the cache clears the whole storage.
+   */
+  storage?: KeyValueStorage;
+  /**
+   * How long a cached response is used. Defaults to 5 minutes.
+   */
+  ttlMs?: number;
+};
+
+type CacheEntry = {
+  result: unknown;
+  expiresAt: number;
+  // latest block when the response was cached, for responses that only hold until the next one
+  blockNumber?: number;
+};
+
+// a response either holds for good, or until the chain moves past the latest block
+type Validity = 'immutable' | 'latestBlock';
+
+const CACHED_METHODS = new Set(['eth_getCode', 'eth_call', 'eth_getTransactionReceipt']);
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+function isFixedBlock(block: unknown) {
+  if (typeof block === 'string') {
+    return block === 'earliest' || (has0xPrefix(block) && isHexString(block));
+  }
+  // EIP-1898 block parameter
+  return (
+    typeof block === 'object' && block !== null && ('blockHash' in block || 'blockNumber' in block)
+  );
+}
+
+function getValidity({ method, params }: RequestArguments, result: unknown): Validity | null {
+  const block = Array.isArray(params) ? params[1] : undefined;
+
+  switch (method) {
+    case 'eth_getCode':
+      if (isFixedBlock(block)) return 'immutable';
+      return block === undefined || block === 'latest' ? 'latestBlock' : null;
+    case 'eth_call':
+      return isFixedBlock(block) ? 'immutable' : null;
+    case 'eth_getTransactionReceipt':
+      // no receipt until the transaction is mined, and a reorg can drop or move it
+      return result ? 'latestBlock' : null;
+    default:
+      return null;
+  }
+}
+
+function cacheKey(chainId: number, { method, params }: RequestArguments) {
+  // addresses and hex data are case-insensitive
+  return `${chainId}:${method}:${JSON.stringify(params ?? []).toLowerCase()}`;
+}
+
+function latestBlockKey(chainId: number) {
+  return `${chainId}:latestBlock`;
+}
+
+/**
+ * Caches responses to idempotent RPC requests: `eth_getCode`, `eth_call` at a
+ * fixed block and receipts of mined transactions.
+ *
+ * `eth_getCode` at the latest block and receipts are cached until an
+ * `eth_blockNumber` response reports a newer block.
+ */
+export class RPCCache {
+  constructor(
+    private readonly storage: KeyValueStorage,
+    private readonly ttlMs = DEFAULT_TTL_MS
+  ) {}
+
+  /**
+   * @returns the cached response, or `undefined` if there is none.
+   */
+  async get(chainId: number, request: RequestArguments): Promise<{ result: unknown } | undefined> {
+    if (!CACHED_METHODS.has(request.method)) return undefined;
+
+    const key = cacheKey(chainId, request);
+    const entry = await this.storage.loadObject<CacheEntry>(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now() || !(await this.isCurrent(chainId, entry))) {
+      await this.storage.removeItem(key);
+      return undefined;
+    }
+    return { result: entry.result };
+  }
+
+  /**
+   * Caches `result` if `request` is idempotent.
+   */
+  async set(chainId: number, request: RequestArguments, result: unknown) {
+    if (request.method === 'eth_blockNumber') {
+      await this.updateLatestBlock(chainId, result);
+      return;
+    }
+
+    const validity = getValidity(request, result);
+    if (!validity) return;
+
+    const entry: CacheEntry = { result, expiresAt: Date.now() + this.ttlMs };
+    if (validity === 'latestBlock') {
+      const latestBlock = await this.storage.loadObject<number>(latestBlockKey(chainId));
+      // without a block number, nothing would ever invalidate it
+      if (latestBlock === undefined) return;
+      entry.blockNumber = latestBlock;
+    }
+    await this.storage.storeObject(cacheKey(chainId, request), entry);
+  }
+
+  async clear() {
+    await this.storage.clear();
+  }
+
+  private async isCurrent(chainId: number, { blockNumber }: CacheEntry) {
+    if (blockNumber === undefined) return true;
+
+    const latestBlock = await this.storage.loadObject<number>(latestBlockKey(chainId));
+    return latestBlock === undefined || latestBlock <= blockNumber;
+  }
+
+  private async updateLatestBlock(chainId: number, result: unknown) {
+    if (!isHexString(result)) return;
+
+    const blockNumber = intNumberFromHexString(result);
+    const latestBlock = await this.storage.loadObject<number>(latestBlockKey(chainId));
+    if (latestBlock === undefined || blockNumber > latestBlock) {
+      await this.storage.storeObject(latestBlockKey(chainId), blockNumber);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { RPCClient } from './RPCClient';
+import { standardErrorCodes } from ':core/error';
+
+type Body = { id: string; method: string };
+
+function jsonResponse(body: unknown, status = 200) {
+  return { status, json: jest.fn().mockResolvedValue(body) };
+}
+
+// answers each call with its method name
+function echoResponse(body: Body | Body[]) {
+  return Array.isArray(body)
+    ? body.map(({ id, method }) => ({ jsonrpc: '2.0', id, result: method }))
+    : { jsonrpc: '2.0', id: body.id, result: body.method };
+}
+
+function sentBody(call: number): Body | Body[] {
+  return JSON.parse((global.fetch as jest.Mock).mock.calls[call][1].body);
+}
+
+describe('RPCClient', () => {
+  const rpcUrl = 'https://rpc.example.com';
+
+  beforeEach(() => {
+    global.fetch = jest.fn(async (_url: string, init: RequestInit) =>
+      jsonResponse(echoResponse(JSON.parse(init.body as string)))
+    ) as jest.Mock;
+  });
+
+  it('should send a single call on its own', async () => {
+    const client = new RPCClient();
+
+    await expect(client.request({ method: 'eth_blockNumber' }, rpcUrl)).resolves.toBe(
+      'eth_blockNumber'
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(sentBody(0)).toMatchObject({ jsonrpc: '2.0', method: 'eth_blockNumber' });
+  });
+
+  it('should batch calls made in the same tick', async () => {
+    const client = new RPCClient();
+
+    const results = await Promise.all([
+      client.request({ method: 'eth_blockNumber' }, rpcUrl),
+      client.request({ method: 'eth_gasPrice' }, rpcUrl),
+      client.request({ method: 'eth_chainId' }, 'https://other.example.com'),
+    ]);
+
+    expect(results).toEqual(['eth_blockNumber', 'eth_gasPrice', 'eth_chainId']);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(sentBody(0)).toEqual([
+      expect.objectContaining({ method: 'eth_blockNumber' }),
+      expect.objectContaining({ method: 'eth_gasPrice' }),
+    ]);
+  });
+
+  it('should send calls separately when batching is off', async () => {
+    const client = new RPCClient({ batch: false });
+
+    await Promise.all([
+      client.request({ method: 'eth_blockNumber' }, rpcUrl),
+      client.request({ method: 'eth_gasPrice' }, rpcUrl),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should match batch responses by id', async () => {
+    global.fetch = jest.fn(async (_url: string, init: RequestInit) =>
+      jsonResponse((echoResponse(JSON.parse(init.body as string)) as unknown[]).reverse())
+    ) as jest.Mock;
+    const client = new RPCClient();
+
+    const results = await Promise.all([
+      client.request({ method: 'eth_blockNumber' }, rpcUrl),
+      client.request({ method: 'eth_gasPrice' }, rpcUrl),
+    ]);
+
+    expect(results).toEqual(['eth_blockNumber', 'eth_gasPrice']);
+  });
+
+  it('should convert errors returned by the endpoint', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValue(
+        jsonResponse({ id: '1', error: { code: 3, message: 'execution reverted', data: '0x' } })
+      );
+    const client = new RPCClient();
+
+    const error = await client.request({ method: 'eth_call' }, rpcUrl).catch((e) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({ code: 3, message: 'execution reverted', data: '0x' });
+  });
+
+  it('should reject every call of a batch the endpoint rejects', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValue(
+        jsonResponse({ id: null, error: { code: -32600, message: 'Batch not supported' } })
+      );
+    const client = new RPCClient();
+
+    const results = await Promise.allSettled([
+      client.request({ method: 'eth_blockNumber' }, rpcUrl),
+      client.request({ method: 'eth_gasPrice' }, rpcUrl),
+    ]);
+
+    expect(results).toEqual([
+      { status: 'rejected', reason: expect.objectContaining({ code: -32600 }) },
+      { status: 'rejected', reason: expect.objectContaining({ code: -32600 }) },
+    ]);
+  });
+
+  it.each([
+    [500, standardErrorCodes.rpc.resourceUnavailable],
+    [429, standardErrorCodes.rpc.limitExceeded],
+  ])('should retry after HTTP %i', async (status, code) => {
+    global.fetch = jest.fn().mockResolvedValue(jsonResponse(null, status));
+    const client = new RPCClient({ retries: 2, retryDelayMs: 1 });
+
+    await expect(client.request({ method: 'eth_blockNumber' }, rpcUrl)).rejects.toMatchObject({
+      code,
+    });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should retry after network errors until a request succeeds', async () => {
+    global.fetch = jest
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(jsonResponse({ result: '0x1' }));
+    const client = new RPCClient({ retryDelayMs: 1 });
+
+    await expect(client.request({ method: 'eth_blockNumber' }, rpcUrl)).resolves.toBe('0x1');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry invalid responses', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      status: 200,
+      json: jest.fn().mockRejectedValue(new SyntaxError('Unexpected token')),
+    });
+    const client = new RPCClient({ retryDelayMs: 1 });
+
+    await expect(client.request({ method: 'eth_blockNumber' }, rpcUrl)).rejects.toMatchObject({
+      code: standardErrorCodes.rpc.resourceUnavailable,
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should time out requests', async () => {
+    global.fetch = jest.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    ) as jest.Mock;
+    const client = new RPCClient({ retries: 0, timeoutMs: 10 });
+
+    await expect(client.request({ method: 'eth_blockNumber' }, rpcUrl)).rejects.toMatchObject({
+      code: standardErrorCodes.rpc.resourceUnavailable,
+      message: `RPC request to ${rpcUrl} timed out`,
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { LIB_VERSION } from '../../version';
+import { standardErrors } from ':core/error';
+import { RequestArguments } from ':core/provider/interface';
+
+export type RPCClientOptions = {
+  /**
+   * Send calls made in the same tick to the same endpoint as one JSON-RPC batch.
+   * Defaults to `true`.
+   */
+  batch?: boolean;
+  /**
+   * How many times a request is retried after a network error, a timeout, or an
+   * HTTP 429 or 5xx response. Defaults to 2.
+   */
+  retries?: number;
+  /**
+   * Delay before the first retry, doubled for each retry after it. Defaults to 250 ms.
+   */
+  retryDelayMs?: number;
+  /**
+   * How long each attempt waits for a response. Defaults to 10 seconds.
+   */
+  timeoutMs?: number;
+};
+
+type JSONRPCRequest = RequestArguments & {
+  jsonrpc: '2.0';
+  id: string;
+};
+
+type JSONRPCResponse = {
+  id?: string;
+  result?: unknown;
+  error?: unknown;
+};
+
+type Call = {
+  body: JSONRPCRequest;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+};
+
+type Attempt =
+  | { response: JSONRPCResponse | JSONRPCResponse[] }
+  | { error: Error; retryable: boolean };
+
+/**
+ * Sends JSON-RPC requests to RPC endpoints over HTTP.
+ *
+ * Endpoint failures reject with `resourceUnavailable`, or `limitExceeded` when rate
+ * limited. Errors returned by the endpoint reject as `EthereumRpcError`s with the
+ * code the endpoint returned.
+ */
+export class RPCClient {
+  private readonly batch: boolean;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+  private readonly timeoutMs: number;
+
+  // calls waiting for the end of the tick, by RPC URL
+  private readonly pendingCalls = new Map<string, Call[]>();
+
+  constructor({
+    batch = true,
+    retries = 2,
+    retryDelayMs = 250,
+    timeoutMs = 10_000,
+  }: RPCClientOptions = {}) {
+    this.batch = batch;
+    this.retries = retries;
+    this.retryDelayMs = retryDelayMs;
+    this.timeoutMs = timeoutMs;
+  }
+
+  request(request: RequestArguments, rpcUrl: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const call: Call = {
+        body: { ...request, jsonrpc: '2.0', id: crypto.randomUUID() },
+        resolve,
+        reject,
+      };
+
+      if (!this.batch) {
+        this.send(rpcUrl, [call]);
+        return;
+      }
+
+      const calls = this.pendingCalls.get(rpcUrl);
+      if (calls) {
+        calls.push(call);
+        return;
+      }
+
+      const batch = [call];
+      this.pendingCalls.set(rpcUrl, batch);
+      setTimeout(() => {
+        this.pendingCalls.delete(rpcUrl);
+        this.send(rpcUrl, batch);
+      }, 0);
+    });
+  }
+
+  private async send(rpcUrl: string, calls: Call[]) {
+    let response: JSONRPCResponse | JSONRPCResponse[];
+    try {
+      // a single call is sent on its own, for endpoints without batch support
+      const body = calls.length === 1 ? calls[0].body : calls.map(({ body }) => body);
+      response = await this.fetchWithRetry(rpcUrl, body);
+    } catch (error) {
+      calls.forEach(({ reject }) => reject(error));
+      return;
+    }
+
+    calls.forEach(({ body, resolve, reject }) => {
+      const callResponse = findResponse(response, body.id, calls.length);
+      if (!callResponse) {
+        reject(standardErrors.rpc.internal(`No response for ${body.method} from ${rpcUrl}`));
+      } else if (callResponse.error) {
+        reject(toRPCError(callResponse.error));
+      } else {
+        resolve(callResponse.result);
+      }
+    });
+  }
+
+  private async fetchWithRetry(rpcUrl: string, body: unknown) {
+    for (let attempt = 0; ; attempt++) {
+      const outcome = await this.fetchOnce(rpcUrl, body);
+      if ('response' in outcome) return outcome.response;
+      if (!outcome.retryable || attempt >= this.retries) throw outcome.error;
+
+      await new Promise((resolve) => setTimeout(resolve, this.retryDelayMs * 2 ** attempt));
+    }
+  }
+
+  private async fetchOnce(rpcUrl: string, body: unknown): Promise<Attempt> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      let res: Response;
+      try {
+        res = await fetch(rpcUrl, {
+          method: 'POST',
+          body: JSON.stringify(body),
+          mode: 'cors',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Cbw-Sdk-Version': LIB_VERSION,
+            'X-Cbw-Sdk-Platform': '@mobile-wallet-protocol/client',
+          },
+          signal: controller.signal,
+        });
+      } catch {
+        const reason = controller.signal.aborted ? 'timed out' : 'failed';
+        return {
+          error: standardErrors.rpc.resourceUnavailable(`RPC request to ${rpcUrl} ${reason}`),
+          retryable: true,
+        };
+      }
+
+      if (res.status === 429) {
+        return {
+          error: standardErrors.rpc.limitExceeded(`RPC request to ${rpcUrl} was rate limited`),
+          retryable: true,
+        };
+      }
+      if (res.status >= 500) {
+        return {
+          error: standardErrors.rpc.resourceUnavailable(
+            `RPC request to ${rpcUrl} failed with HTTP ${res.status}`
+          ),
+          retryable: true,
+        };
+      }
+
+      try {
+        return { response: await res.json() };
+      } catch {
+        return {
+          error: standardErrors.rpc.resourceUnavailable(
+            `RPC endpoint ${rpcUrl} returned an invalid response`
+          ),
+          retryable: false,
+        };
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+function findResponse(
+  response: JSONRPCResponse | JSONRPCResponse[],
+  id: string,
+  batchSize: number
+): JSONRPCResponse | undefined {
+  if (Array.isArray(response)) return response.find((item) => item?.id === id);
+  // endpoints that reject a batch answer it with a single error
+  if (batchSize === 1 || response?.error) return response;
+  return undefined;
+}
+
+function toRPCError(error: unknown) {
+  const { code, message, data } = (error ?? {}) as Record<string, unknown>;
+  if (Number.isInteger(code) && typeof message === 'string' && message) {
+    return standardErrors.rpc.custom({ code: code as number, message, data });
+  }
+  return standardErrors.rpc.internal({
+    message: typeof message === 'string' ? message : undefined,
+    data: error,
+  });
+}
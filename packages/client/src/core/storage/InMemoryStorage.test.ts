@@ -0,0 +1,45 @@
+import { InMemoryStorage } from './InMemoryStorage';
+
+describe('InMemoryStorage', () => {
+  let storage: InMemoryStorage;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage('Test Wallet', 'MWPClient');
+  });
+
+  it('should store and load values', async () => {
+    await storage.setItem('key', 'value');
+    await storage.storeObject('accounts', ['0xAddress']);
+
+    expect(await storage.getItem('key')).toEqual('value');
+    expect(await storage.loadObject('accounts')).toEqual(['0xAddress']);
+  });
+
+  it('should return empty values for missing keys', async () => {
+    expect(await storage.getItem('missing')).toBeNull();
+    expect(await storage.loadObject('missing')).toBeUndefined();
+  });
+
+  it('should remove values', async () => {
+    await storage.setItem('key', 'value');
+    await storage.removeItem('key');
+
+    expect(await storage.getItem('key')).toBeNull();
+  });
+
+  it('should not share values between instances', async () => {
+    await storage.setItem('key', 'value');
+
+    expect(await new InMemoryStorage('Test Wallet', 'MWPClient').getItem('key')).toBeNull();
+  });
+
+  it('should clear all values', async () => {
+    await storage.setItem('key', 'value');
+    await storage.storeObject('accounts', ['0xAddress']);
+
+    await storage.clear();
+
+    expect(await storage.getItem('key')).toBeNull();
+    expect(await storage.loadObject('accounts')).toBeUndefined();
+  });
+});
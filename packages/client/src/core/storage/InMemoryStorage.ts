@@ -0,0 +1,42 @@
+import { KeyValueStorage, Scope, ScopedStorage } from './types';
+
+/**
+ * Keeps values in memory for the lifetime of the instance, e.g. for tests or
+ * server-side rendering where nothing should be persisted. Instances do not
+ * share values; pass the same instance to share state.
+ */
+export class InMemoryStorage extends ScopedStorage implements KeyValueStorage {
+  private readonly items = new Map<string, string>();
+
+  constructor(scope: Scope, module?: string) {
+    super(scope, module);
+  }
+
+  async storeObject<T>(key: string, item: T): Promise<void> {
+    await this.setItem(key, JSON.stringify(item));
+  }
+
+  async loadObject<T>(key: string): Promise<T | undefined> {
+    const item = await this.getItem(key);
+    return item ? JSON.parse(item) : undefined;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(this.scopedKey(key), value);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(this.scopedKey(key)) ?? null;
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(this.scopedKey(key));
+  }
+
+  async clear(): Promise<void> {
+    const prefix = this.scopedKey('');
+    for (const key of [...this.items.keys()]) {
+      if (key.startsWith(prefix)) this.items.delete(key);
+    }
+  }
+}
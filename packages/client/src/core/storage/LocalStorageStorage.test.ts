@@ -0,0 +1,57 @@
+import { LocalStorageStorage } from './LocalStorageStorage';
+
+describe('LocalStorageStorage', () => {
+  let storage: LocalStorageStorage;
+
+  beforeEach(async () => {
+    storage = new LocalStorageStorage('Test Wallet', 'MWPClient');
+    await storage.clear();
+  });
+
+  it('should store and load values', async () => {
+    await storage.setItem('key', 'value');
+    await storage.storeObject('accounts', ['0xAddress']);
+
+    expect(await storage.getItem('key')).toEqual('value');
+    expect(await storage.loadObject('accounts')).toEqual(['0xAddress']);
+  });
+
+  it('should return empty values for missing keys', async () => {
+    expect(await storage.getItem('missing')).toBeNull();
+    expect(await storage.loadObject('missing')).toBeUndefined();
+  });
+
+  it('should remove values', async () => {
+    await storage.setItem('key', 'value');
+    await storage.removeItem('key');
+
+    expect(await storage.getItem('key')).toBeNull();
+  });
+
+  it('should share values between storages with the same scope', async () => {
+    await storage.setItem('key', 'value');
+
+    expect(await new LocalStorageStorage('Test Wallet', 'MWPClient').getItem('key')).toEqual(
+      'value'
+    );
+    expect(await new LocalStorageStorage('Test Wallet', 'KeyManager').getItem('key')).toBeNull();
+  });
+
+  it('should only clear its own scope', async () => {
+    const otherStorage = new LocalStorageStorage('Other Wallet', 'MWPClient');
+    await storage.setItem('key', 'value');
+    await otherStorage.setItem('key', 'other value');
+
+    await storage.clear();
+
+    expect(await storage.getItem('key')).toBeNull();
+    expect(await otherStorage.getItem('key')).toEqual('other value');
+  });
+
+  it('should use the scoped key layout', async () => {
+    await storage.setItem('key', 'value');
+
+    expect(localStorage.getItem(storage.scopedKey('key'))).toEqual('value');
+    expect(storage.scopedKey('key')).toEqual('-Test Wallet:MWPClient:key');
+  });
+});
@@ -0,0 +1,79 @@
+import { ScopedPreferencesStorage } from './ScopedPreferencesStorage';
+import { SecureKeyValueStorage, UndecryptableValueError } from './SecureKeyValueStorage';
+
+const wrappingKey = new Uint8Array(32).fill(7);
+
+describe('SecureKeyValueStorage', () => {
+  let storage: ScopedPreferencesStorage;
+  let secureStorage: SecureKeyValueStorage;
+
+  beforeEach(async () => {
+    storage = new ScopedPreferencesStorage('Test Wallet', 'KeyManager');
+    await storage.clear();
+    secureStorage = new SecureKeyValueStorage(storage, wrappingKey);
+  });
+
+  it('should read back stored values', async () => {
+    await secureStorage.setItem('ownPrivateKey', 'abcdef');
+    await secureStorage.storeObject('accounts', ['0xAddress']);
+
+    expect(await secureStorage.getItem('ownPrivateKey')).toEqual('abcdef');
+    expect(await secureStorage.loadObject('accounts')).toEqual(['0xAddress']);
+  });
+
+  it('should only store ciphertext in the underlying storage', async () => {
+    await secureStorage.setItem('ownPrivateKey', 'abcdef');
+
+    const stored = await storage.getItem('ownPrivateKey');
+    expect(stored).not.toBeNull();
+    expect(stored).not.toContain('abcdef');
+  });
+
+  it('should return null for missing values', async () => {
+    expect(await secureStorage.getItem('ownPrivateKey')).toBeNull();
+    expect(await secureStorage.loadObject('accounts')).toBeUndefined();
+  });
+
+  it('should get the wrapping key from a keystore adapter', async () => {
+    const keystore = { getWrappingKey: jest.fn().mockResolvedValue(wrappingKey) };
+    const keystoreStorage = new SecureKeyValueStorage(storage, keystore);
+
+    await keystoreStorage.setItem('ownPrivateKey', 'abcdef');
+
+    expect(keystore.getWrappingKey).toHaveBeenCalled();
+    expect(await secureStorage.getItem('ownPrivateKey')).toEqual('abcdef');
+  });
+
+  it('should fail to read values wrapped with another key', async () => {
+    await new SecureKeyValueStorage(storage, new Uint8Array(32).fill(1)).setItem(
+      'ownPrivateKey',
+      'abcdef'
+    );
+
+    await expect(secureStorage.getItem('ownPrivateKey')).rejects.toThrow(UndecryptableValueError);
+  });
+
+  it('should fail to read values stored unencrypted', async () => {
+    await storage.setItem('ownPrivateKey', 'abcdef');
+
+    await expect(secureStorage.getItem('ownPrivateKey')).rejects.toThrow(UndecryptableValueError);
+  });
+
+  it('should fail to read values moved to another key', async () => {
+    await secureStorage.setItem('ownPrivateKey', 'abcdef');
+    await storage.setItem('peerPublicKey', (await storage.getItem('ownPrivateKey'))!);
+
+    await expect(secureStorage.getItem('peerPublicKey')).rejects.toThrow();
+  });
+
+  it('should remove and clear values', async () => {
+    await secureStorage.setItem('ownPrivateKey', 'abcdef');
+    await secureStorage.setItem('peerPublicKey', '123456');
+
+    await secureStorage.removeItem('ownPrivateKey');
+    expect(await storage.getItem('ownPrivateKey')).toBeNull();
+
+    await secureStorage.clear();
+    expect(await storage.getItem('peerPublicKey')).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+
+import { KeyValueStorage } from './types';
+import { hexStringToUint8Array, uint8ArrayToHex } from ':core/type/util';
+
+/**
+ * Supplies the key that wraps stored values.
+ *
+ * Back this with the iOS Keychain / Secure Enclave or the Android Keystore so the
+ * wrapping key never sits on disk next to the values it protects.
+ */
+export interface KeystoreAdapter {
+  /**
+   * @returns a 128, 192 or 256-bit AES key.
+   */
+  getWrappingKey(): Promise<Uint8Array>;
+}
+
+/**
+ * Thrown when a stored value is not encrypted, or cannot be decrypted with the
+ * current wrapping key.
+ */
+export class UndecryptableValueError extends Error {
+  constructor(key: string, options?: { cause?: unknown }) {
+    super(`Stored value for ${key} cannot be decrypted`, options);
+    this.name = 'UndecryptableValueError';
+  }
+}
+
+/**
+ * Encrypts values with AES-GCM before handing them to another `KeyValueStorage`,
+ * so plaintext storage such as Preferences only ever holds ciphertext.
+ *
+ * Each value is bound to its key, so ciphertext copied to another key fails to decrypt.
+ */
+export class SecureKeyValueStorage implements KeyValueStorage {
+  private readonly keystore: KeystoreAdapter;
+
+  constructor(
+    private readonly storage: KeyValueStorage,
+    wrappingKey: Uint8Array | KeystoreAdapter
+  ) {
+    this.keystore =
+      wrappingKey instanceof Uint8Array ? { getWrappingKey: async () => wrappingKey } : wrappingKey;
+  }
+
+  async storeObject<T>(key: string, item: T): Promise<void> {
+    await this.setItem(key, JSON.stringify(item));
+  }
+
+  async loadObject<T>(key: string): Promise<T | undefined> {
+    const item = await this.getItem(key);
+    return item ? JSON.parse(item) : undefined;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.storage.setItem(key, await this.wrap(key, value));
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const wrapped = await this.storage.getItem(key);
+    if (wrapped === null) return null;
+
+    return this.unwrap(key, wrapped);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.storage.removeItem(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear();
+  }
+
+  private async wrap(key: string, value: string): Promise<string> {
+    const iv = randomBytes(12);
+    const stream = gcm(await this.keystore.getWrappingKey(), iv, utf8ToBytes(key));
+    const cipherText = stream.encrypt(utf8ToBytes(value));
+
+    return `${uint8ArrayToHex(iv)}:${uint8ArrayToHex(cipherText)}`;
+  }
+
+  private async unwrap(key: string, wrapped: string): Promise<string> {
+    const [iv, cipherText] = wrapped.split(':');
+    if (!iv || !cipherText) throw new UndecryptableValueError(key);
+
+    const wrappingKey = await this.keystore.getWrappingKey();
+    try {
+      const stream = gcm(wrappingKey, hexStringToUint8Array(iv), utf8ToBytes(key));
+      return bytesToUtf8(stream.decrypt(hexStringToUint8Array(cipherText)));
+    } catch (error) {
+      throw new UndecryptableValueError(key, { cause: error });
+    }
+  }
+}
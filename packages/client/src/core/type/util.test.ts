@@ -1,6 +1,7 @@
 import { HexString } from '.';
 import {
   bigIntStringFromBigInt,
+  checksumAddress,
   ensureAddressString,
   ensureBigInt,
   ensureBuffer,
@@ -114,6 +115,16 @@ describe('util', () => {
     );
   });
 
+  test('checksumAddress', () => {
+    expect(checksumAddress('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed')).toEqual(
+      '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'
+    );
+    expect(checksumAddress('FB6916095CA1DF60BB79CE92CE3EA74C37C5D359')).toEqual(
+      '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359'
+    );
+    expect(() => checksumAddress('0x1234')).toThrowError('Invalid Ethereum address');
+  });
+
   test('ensureBuffer', () => {
     const bufferVal = Buffer.from('I AM THE WALRUS');
 
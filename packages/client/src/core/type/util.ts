@@ -1,6 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // Copyright (c) 2018-2023 Coinbase, Inc. <https://www.coinbase.com/>
 
+import { keccak_256 } from '@noble/hashes/sha3';
+
 import { standardErrors } from '../error';
 import { AddressString, BigIntString, HexString, IntNumber, RegExpString } from '.';
 
@@ -93,6 +95,18 @@ export function ensureAddressString(str: unknown): AddressString {
   throw standardErrors.rpc.invalidParams(`Invalid Ethereum address: ${String(str)}`);
 }
 
+/**
+ * Returns the EIP-55 mixed-case checksum form of an address.
+ */
+export function checksumAddress(str: unknown): AddressString {
+  const address = strip0x(ensureAddressString(str));
+  const hash = uint8ArrayToHex(keccak_256(address));
+  const checksummed = [...address]
+    .map((char, i) => (parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char))
+    .join('');
+  return AddressString(prepend0x(checksummed));
+}
+
 export function ensureBuffer(str: unknown): Buffer {
   if (Buffer.isBuffer(str)) {
     return str;
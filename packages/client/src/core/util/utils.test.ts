@@ -56,6 +56,7 @@ describe('Utils', () => {
           'X-Cbw-Sdk-Version': LIB_VERSION,
           'X-Cbw-Sdk-Platform': '@mobile-wallet-protocol/client',
         },
+        signal: expect.anything(),
       });
     });
 
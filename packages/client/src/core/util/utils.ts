@@ -1,28 +1,15 @@
-import { LIB_VERSION } from '../../version';
 import { MWP_RESPONSE_PATH } from ':core/constants';
 import { standardErrors } from ':core/error';
 import { RequestArguments } from ':core/provider/interface';
+import { RPCClient } from ':core/rpc/RPCClient';
 
-export async function fetchRPCRequest(request: RequestArguments, rpcUrl: string) {
-  const requestBody = {
-    ...request,
-    jsonrpc: '2.0',
-    id: crypto.randomUUID(),
-  };
-  const res = await fetch(rpcUrl, {
-    method: 'POST',
-    body: JSON.stringify(requestBody),
-    mode: 'cors',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Cbw-Sdk-Version': LIB_VERSION,
-      'X-Cbw-Sdk-Platform': '@mobile-wallet-protocol/client',
-    },
-  });
-  const { result, error } = await res.json();
-  if (error) throw error;
+const defaultRPCClient = new RPCClient();
 
-  return result;
+/**
+ * Sends `request` to `rpcUrl` with the default batching, retry and timeout settings.
+ */
+export function fetchRPCRequest(request: RequestArguments, rpcUrl: string) {
+  return defaultRPCClient.request(request, rpcUrl);
 }
 
 export function appendMWPResponsePath(urlString: string) {
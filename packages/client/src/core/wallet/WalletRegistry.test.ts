@@ -0,0 +1,105 @@
+import { Wallet, Wallets } from '.';
+import { WalletRegistry } from './WalletRegistry';
+import { standardErrorCodes } from ':core/error';
+
+const nativeWallet: Wallet = {
+  type: 'native',
+  name: 'Native Wallet',
+  scheme: 'nativewallet://',
+  storeUrl: {
+    appStore: 'https://apps.apple.com/app/id123',
+    googlePlay: 'https://play.google.com/store/apps/details?id=wallet',
+  },
+  iconUrl: 'https://wallet.example.com/icon.png',
+};
+
+describe('WalletRegistry', () => {
+  let registry: WalletRegistry;
+
+  beforeEach(() => {
+    registry = new WalletRegistry();
+  });
+
+  it('should include the built-in wallets', () => {
+    expect(registry.list()).toEqual([{ wallet: Wallets.CoinbaseSmartWallet }]);
+  });
+
+  it('should register and unregister wallets', () => {
+    registry.register(nativeWallet, { chainIds: [1], methods: ['personal_sign'] });
+
+    expect(registry.get('Native Wallet')).toEqual({
+      wallet: nativeWallet,
+      chainIds: [1],
+      methods: ['personal_sign'],
+    });
+
+    expect(registry.unregister('Native Wallet')).toBe(true);
+    expect(registry.get('Native Wallet')).toBeUndefined();
+    expect(registry.unregister('Native Wallet')).toBe(false);
+  });
+
+  it('should reject wallets that are already registered', () => {
+    expect(() => registry.register(Wallets.CoinbaseSmartWallet)).toThrow(
+      'Coinbase Smart Wallet is already registered'
+    );
+  });
+
+  it.each([
+    [{ ...nativeWallet, name: '' }, 'Wallet name must not be empty'],
+    [{ ...nativeWallet, scheme: 'not a url' }, 'Native Wallet scheme must be a URL'],
+    [
+      { type: 'web', name: 'Web Wallet', scheme: 'http://wallet.example.com' },
+      'Web Wallet scheme must be an https URL',
+    ],
+    [
+      { ...nativeWallet, storeUrl: { ...nativeWallet.storeUrl, googlePlay: '' } },
+      'Native Wallet store URLs must be https URLs',
+    ],
+    [{ ...nativeWallet, iconUrl: 'ftp://icon.png' }, 'Native Wallet icon must be an https URL'],
+  ] as [Wallet, string][])('should reject invalid wallets: %s', (wallet, message) => {
+    expect(() => registry.register(wallet)).toThrow(
+      expect.objectContaining({ code: standardErrorCodes.rpc.invalidParams, message })
+    );
+  });
+
+  it('should reject invalid capabilities', () => {
+    expect(() => registry.register(nativeWallet, { chainIds: [1.5] })).toThrow(
+      'Chain ids must be positive integers'
+    );
+    expect(() => registry.register(nativeWallet, { methods: [''] })).toThrow(
+      'Methods must be non-empty strings'
+    );
+  });
+
+  describe('find', () => {
+    const baseWallet: Wallet = {
+      type: 'web',
+      name: 'Base Wallet',
+      scheme: 'https://base.example.com',
+    };
+
+    beforeEach(() => {
+      registry = new WalletRegistry([]);
+      registry.register(baseWallet, {
+        chainIds: [8453],
+        methods: ['personal_sign', 'wallet_sendCalls'],
+      });
+      registry.register(nativeWallet, { chainIds: [1, 8453], methods: ['personal_sign'] });
+      registry.register(Wallets.CoinbaseSmartWallet);
+    });
+
+    it('should filter wallets by chain and method', () => {
+      expect(
+        registry.find({ chainId: 8453, method: 'wallet_sendCalls' }).map(({ wallet }) => wallet)
+      ).toEqual([baseWallet, Wallets.CoinbaseSmartWallet]);
+      expect(registry.find({ chainId: 1 }).map(({ wallet }) => wallet)).toEqual([
+        nativeWallet,
+        Wallets.CoinbaseSmartWallet,
+      ]);
+    });
+
+    it('should return every wallet for an empty query', () => {
+      expect(registry.find({})).toHaveLength(3);
+    });
+  });
+});
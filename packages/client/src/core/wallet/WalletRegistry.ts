@@ -0,0 +1,118 @@
+import { Wallet, Wallets } from '.';
+import { standardErrors } from ':core/error';
+
+export type WalletCapabilities = {
+  /**
+   * Chains the wallet can use. Leave unset if the wallet is not limited to a set of chains.
+   */
+  chainIds?: number[];
+  /**
+   * RPC methods the wallet handles. Leave unset if the wallet is not limited to a set of methods.
+   */
+  methods?: string[];
+};
+
+export type RegisteredWallet = WalletCapabilities & {
+  wallet: Wallet;
+};
+
+export type WalletQuery = {
+  chainId?: number;
+  method?: string;
+};
+
+/**
+ * Wallets the app can connect to, with what each of them supports.
+ *
+ * Starts out with the built-in `Wallets`; register custom wallets at runtime.
+ */
+export class WalletRegistry {
+  private readonly entries = new Map<string, RegisteredWallet>();
+
+  constructor(wallets: readonly Wallet[] = Object.values(Wallets)) {
+    wallets.forEach((wallet) => this.register(wallet));
+  }
+
+  /**
+   * @throws if the wallet or its capabilities are invalid, or a wallet with the
+   * same name is already registered.
+   */
+  register(wallet: Wallet, capabilities: WalletCapabilities = {}) {
+    validateWallet(wallet);
+    validateCapabilities(capabilities);
+    if (this.entries.has(wallet.name)) {
+      throw standardErrors.rpc.invalidParams(`${wallet.name} is already registered`);
+    }
+
+    this.entries.set(wallet.name, { ...capabilities, wallet });
+  }
+
+  /**
+   * @returns `false` if no wallet with this name was registered.
+   */
+  unregister(name: string): boolean {
+    return this.entries.delete(name);
+  }
+
+  get(name: string): RegisteredWallet | undefined {
+    return this.entries.get(name);
+  }
+
+  list(): RegisteredWallet[] {
+    return [...this.entries.values()];
+  }
+
+  /**
+   * Wallets that support everything in `query`, in registration order.
+   */
+  find({ chainId, method }: WalletQuery): RegisteredWallet[] {
+    return this.list().filter(
+      ({ chainIds, methods }) =>
+        (chainId === undefined || !chainIds || chainIds.includes(chainId)) &&
+        (method === undefined || !methods || methods.includes(method))
+    );
+  }
+}
+
+function validateWallet(wallet: Wallet) {
+  if (!wallet.name) {
+    throw standardErrors.rpc.invalidParams('Wallet name must not be empty');
+  }
+
+  if (!isUrl(wallet.scheme)) {
+    throw standardErrors.rpc.invalidParams(`${wallet.name} scheme must be a URL`);
+  }
+  if (wallet.type === 'web' && !isUrl(wallet.scheme, 'https:')) {
+    throw standardErrors.rpc.invalidParams(`${wallet.name} scheme must be an https URL`);
+  }
+
+  if (wallet.type === 'native') {
+    const { appStore, googlePlay } = wallet.storeUrl ?? {};
+    if (!isUrl(appStore, 'https:') || !isUrl(googlePlay, 'https:')) {
+      throw standardErrors.rpc.invalidParams(`${wallet.name} store URLs must be https URLs`);
+    }
+  }
+
+  if (wallet.iconUrl !== undefined && !isUrl(wallet.iconUrl, 'https:')) {
+    throw standardErrors.rpc.invalidParams(`${wallet.name} icon must be an https URL`);
+  }
+}
+
+function validateCapabilities({ chainIds, methods }: WalletCapabilities) {
+  if (chainIds?.some((chainId) => !Number.isInteger(chainId) || chainId <= 0)) {
+    throw standardErrors.rpc.invalidParams('Chain ids must be positive integers');
+  }
+  if (methods?.some((method) => typeof method !== 'string' || !method)) {
+    throw standardErrors.rpc.invalidParams('Methods must be non-empty strings');
+  }
+}
+
+function isUrl(value: string | undefined, protocol?: string) {
+  if (!value) return false;
+  try {
+    const url = new URL(value);
+    return protocol === undefined || url.protocol === protocol;
+  } catch {
+    return false;
+  }
+}
@@ -2,8 +2,49 @@
 import { MWPClient } from './MWPClient';
 export default MWPClient;
 
-export type { AppMetadata, ProviderInterface } from './core/provider/interface';
+export type { WalletTransport } from './components/communication/WalletTransport';
+export { CapacitorWalletTransport } from './components/communication/WalletTransport';
+export type { SessionInfo } from './components/key/KeyManager';
+export type { RequestMiddleware } from './components/middleware/runMiddleware';
+export type { QueuedRequest, RequestQueueState } from './components/queue/RequestQueue';
+export type {
+  Call,
+  CallsReceipt,
+  CallsStatus,
+  GetCapabilitiesResult,
+  SendCallsParams,
+  SendCallsResult,
+} from './core/provider/eip5792';
+export type { AppMetadata, ProviderInterface, RequestOptions } from './core/provider/interface';
+export type { RPCCacheOptions } from './core/rpc/RPCCache';
+export type { RPCClientOptions } from './core/rpc/RPCClient';
+export { InMemoryStorage } from './core/storage/InMemoryStorage';
+export { LocalStorageStorage } from './core/storage/LocalStorageStorage';
+export { ScopedPreferencesStorage } from './core/storage/ScopedPreferencesStorage';
+export type { KeystoreAdapter } from './core/storage/SecureKeyValueStorage';
+export {
+  SecureKeyValueStorage,
+  UndecryptableValueError,
+} from './core/storage/SecureKeyValueStorage';
+export type { KeyValueStorage } from './core/storage/types';
 export type { Wallet } from './core/wallet';
 export { Wallets } from './core/wallet';
+export type {
+  RegisteredWallet,
+  WalletCapabilities,
+  WalletQuery,
+} from './core/wallet/WalletRegistry';
+export { WalletRegistry } from './core/wallet/WalletRegistry';
 export { EIP1193Provider } from './interfaces/eip1193/EIP1193Provider';
+export type {
+  CapabilitiesInfo,
+  MWPClientOptions,
+  MWPClientState,
+  RecoveredResponse,
+  WaitForCallsStatusOptions,
+} from './MWPClient';
 export { MWPClient } from './MWPClient';
+export type { MockWalletHandler, MockWalletOptions } from './testing/MockWallet';
+export { MockWallet } from './testing/MockWallet';
+export type { WalletSession, WalletSessionManagerOptions } from './WalletSessionManager';
+export { WalletSessionManager } from './WalletSessionManager';
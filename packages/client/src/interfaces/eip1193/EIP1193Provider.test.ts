@@ -1,7 +1,9 @@
-import { MWPClient } from '../../MWPClient';
+import { MWPClient, MWPClientState } from '../../MWPClient';
+import { WalletSessionManager } from '../../WalletSessionManager';
 import { EIP1193Provider } from './EIP1193Provider';
 import { standardErrors } from ':core/error';
 import { serializeError } from ':core/error/serialize';
+import { AddressString } from ':core/type';
 import { Wallet, Wallets } from ':core/wallet';
 
 jest.mock('expo-web-browser', () => ({
@@ -23,9 +25,11 @@ describe('EIP1193Provider', () => {
   beforeEach(() => {
     mockWallet = Wallets.CoinbaseSmartWallet;
     mockClient = {
-      handshake: jest.fn(),
+      handshake: jest.fn().mockResolvedValue([]),
       request: jest.fn(),
       reset: jest.fn(),
+      getState: jest.fn().mockReturnValue({ accounts: [], chainId: 1 }),
+      onStateChange: jest.fn(),
     } as unknown as jest.Mocked<MWPClient>;
     (MWPClient.createInstance as jest.Mock).mockResolvedValue(mockClient);
 
@@ -47,7 +51,17 @@ describe('EIP1193Provider', () => {
   test('request method calls client.request', async () => {
     const args = { method: 'eth_getBalance', params: ['0x123'] };
     await provider.request(args);
-    expect(mockClient.request).toHaveBeenCalledWith(args);
+    expect(mockClient.request).toHaveBeenCalledWith(args, undefined);
+  });
+
+  test('request method forwards request options', async () => {
+    const options = { timeoutMs: 1000, signal: new AbortController().signal };
+    await provider.request({ method: 'eth_requestAccounts' }, options);
+    expect(mockClient.handshake).toHaveBeenCalledWith(options);
+
+    const args = { method: 'personal_sign', params: ['0xMessage', '0xAddress'] };
+    await provider.request(args, options);
+    expect(mockClient.request).toHaveBeenCalledWith(args, options);
   });
 
   test('request method handles errors', async () => {
@@ -59,6 +73,52 @@ describe('EIP1193Provider', () => {
     expect(mockClient.reset).toHaveBeenCalled();
   });
 
+  test('request method keeps the session on other errors', async () => {
+    mockClient.request.mockRejectedValue(standardErrors.rpc.invalidParams());
+    await expect(
+      provider.request({ method: 'wallet_getCapabilities', params: ['0xOther'] })
+    ).rejects.toBeDefined();
+    expect(mockClient.reset).not.toHaveBeenCalled();
+  });
+
+  test('request method returns checksummed accounts', async () => {
+    const address = '0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed';
+    const checksummed = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+    mockClient.handshake.mockResolvedValue([address as AddressString]);
+    mockClient.request.mockResolvedValue([address]);
+
+    await expect(provider.request({ method: 'eth_requestAccounts' })).resolves.toEqual([
+      checksummed,
+    ]);
+    await expect(provider.request({ method: 'eth_accounts' })).resolves.toEqual([checksummed]);
+  });
+
+  test('emits connect once a restored session is loaded', async () => {
+    mockClient.getState.mockReturnValue({
+      accounts: ['0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed' as AddressString],
+      chainId: 8453,
+    });
+    const restoredProvider = new EIP1193Provider({
+      metadata: { name: 'Test App', customScheme: 'test://deeplink' },
+      wallet: mockWallet,
+    });
+    const listener = jest.fn();
+    restoredProvider.on('connect', listener);
+
+    await (restoredProvider as any).ensureInitialized();
+
+    expect(listener).toHaveBeenCalledWith({ chainId: '0x2105' });
+  });
+
+  test('does not emit connect without a restored session', async () => {
+    const listener = jest.fn();
+    provider.on('connect', listener);
+
+    await (provider as any).ensureInitialized();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
   test('enable method calls request with eth_requestAccounts', async () => {
     const spy = jest.spyOn(provider, 'request');
     await provider.enable();
@@ -72,6 +132,68 @@ describe('EIP1193Provider', () => {
     expect(spy).toHaveBeenCalledWith('disconnect', expect.any(Error));
   });
 
+  describe('events', () => {
+    const address = '0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed' as AddressString;
+    let changeState: (state: MWPClientState) => void;
+
+    beforeEach(async () => {
+      await (provider as any).ensureInitialized();
+      changeState = mockClient.onStateChange.mock.calls[0][0];
+    });
+
+    test('emits connect and accountsChanged when accounts are connected', () => {
+      const spy = jest.spyOn(provider, 'emit');
+      changeState({ accounts: [address], chainId: 1 });
+
+      expect(spy).toHaveBeenCalledWith('connect', { chainId: '0x1' });
+      expect(spy).toHaveBeenCalledWith('accountsChanged', [
+        '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+      ]);
+      expect(spy).not.toHaveBeenCalledWith('chainChanged', expect.anything());
+    });
+
+    test('emits chainChanged with a hex chain id', () => {
+      changeState({ accounts: [address], chainId: 1 });
+      const spy = jest.spyOn(provider, 'emit');
+
+      changeState({ accounts: [address], chainId: 8453 });
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith('chainChanged', '0x2105');
+    });
+
+    test('emits accountsChanged with no accounts on reset', () => {
+      changeState({ accounts: [address], chainId: 1 });
+      const spy = jest.spyOn(provider, 'emit');
+
+      changeState({ accounts: [], chainId: 1 });
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith('accountsChanged', []);
+    });
+  });
+
+  test('routes requests through a session manager', async () => {
+    const sessionManager = {
+      restore: jest.fn(),
+      handshake: jest.fn().mockResolvedValue(['0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed']),
+      request: jest.fn().mockResolvedValue('0xSignature'),
+      reset: jest.fn(),
+      getState: jest.fn().mockReturnValue({ accounts: [], chainId: 1 }),
+      onStateChange: jest.fn(),
+    } as unknown as WalletSessionManager;
+    (MWPClient.createInstance as jest.Mock).mockClear();
+    const managedProvider = new EIP1193Provider({ sessionManager });
+
+    await expect(managedProvider.request({ method: 'eth_requestAccounts' })).resolves.toEqual([
+      '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+    ]);
+    const args = { method: 'personal_sign', params: ['0xMessage', '0xAddress'] };
+    await expect(managedProvider.request(args)).resolves.toEqual('0xSignature');
+    expect(sessionManager.request).toHaveBeenCalledWith(args, undefined);
+    expect(MWPClient.createInstance).not.toHaveBeenCalled();
+  });
+
   test('ensureInitialized waits for initialization', async () => {
     const privateEnsureInitialized = (provider as any).ensureInitialized.bind(provider);
     await expect(privateEnsureInitialized()).resolves.not.toThrow();
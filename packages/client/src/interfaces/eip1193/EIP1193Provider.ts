@@ -1,22 +1,39 @@
-import { MWPClient } from '../../MWPClient';
+import { MWPClient, MWPClientOptions, MWPClientState } from '../../MWPClient';
+import { WalletSessionManager } from '../../WalletSessionManager';
 import { standardErrorCodes, standardErrors } from ':core/error';
 import { serializeError } from ':core/error/serialize';
 import {
-  AppMetadata,
   ProviderEventEmitter,
   ProviderInterface,
   RequestArguments,
+  RequestOptions,
 } from ':core/provider/interface';
-import { Wallet } from ':core/wallet';
+import { areAddressArraysEqual, checksumAddress, hexStringFromNumber } from ':core/type/util';
 
-type EIP1193ProviderOptions = {
-  metadata: AppMetadata;
-  wallet: Wallet;
-};
+type EIP1193ProviderOptions =
+  | MWPClientOptions
+  | {
+      /**
+       * Routes requests to the manager's active wallet instead of a single client.
+       */
+      sessionManager: WalletSessionManager;
+    };
+
+// EIP-55 checksummed, so requests and events report accounts in the same form
+function checksumAccounts(accounts: string[]) {
+  return accounts.map((account) => checksumAddress(account));
+}
+
+// what the provider needs from a single client or a session manager
+type ProviderClient = Pick<
+  MWPClient,
+  'handshake' | 'request' | 'reset' | 'getState' | 'onStateChange'
+>;
 
 export class EIP1193Provider extends ProviderEventEmitter implements ProviderInterface {
   private initPromise: Promise<void>;
-  private client: MWPClient | null = null;
+  private client: ProviderClient | null = null;
+  private state: MWPClientState | null = null;
 
   constructor(options: Readonly<EIP1193ProviderOptions>) {
     super();
@@ -24,21 +41,53 @@ export class EIP1193Provider extends ProviderEventEmitter implements ProviderInt
   }
 
   private async initialize(options: EIP1193ProviderOptions) {
-    this.client = await MWPClient.createInstance(options);
+    if ('sessionManager' in options) {
+      // report the sessions of the last run from the start
+      await options.sessionManager.restore();
+      this.client = options.sessionManager;
+    } else {
+      this.client = await MWPClient.createInstance(options);
+    }
+    this.state = this.client.getState();
+    this.client.onStateChange((state) => this.handleStateChange(state));
+    // a restored session is connected without a state change to report it
+    if (this.state.accounts.length > 0) {
+      this.emit('connect', { chainId: hexStringFromNumber(this.state.chainId) });
+    }
+  }
+
+  /**
+   * Translates client state changes into EIP-1193 events.
+   * https://eips.ethereum.org/EIPS/eip-1193#events-1
+   */
+  private handleStateChange(state: MWPClientState) {
+    const previous = this.state;
+    this.state = state;
+    const chainId = hexStringFromNumber(state.chainId);
+
+    if (previous?.accounts.length === 0 && state.accounts.length > 0) {
+      this.emit('connect', { chainId });
+    }
+    if (!previous || !areAddressArraysEqual(previous.accounts, state.accounts)) {
+      this.emit('accountsChanged', checksumAccounts(state.accounts));
+    }
+    if (previous?.chainId !== state.chainId) {
+      this.emit('chainChanged', chainId);
+    }
   }
 
-  public async request(args: RequestArguments): Promise<unknown> {
+  public async request(args: RequestArguments, options?: RequestOptions): Promise<unknown> {
     await this.ensureInitialized();
     try {
       if (!this.client) throw standardErrors.rpc.internal('MWPClient not initialized');
 
       if (args.method === 'eth_requestAccounts') {
-        // TODO: emit connect
-        const accounts = await this.client.handshake();
-        return accounts;
+        const accounts = await this.client.handshake(options);
+        return checksumAccounts(accounts);
       }
 
-      return await this.client.request(args);
+      const result = await this.client.request(args, options);
+      return args.method === 'eth_accounts' ? checksumAccounts(result as string[]) : result;
     } catch (error) {
       const { code } = error as { code?: number };
       if (code === standardErrorCodes.provider.unauthorized) this.disconnect();
@@ -0,0 +1,176 @@
+import {
+  decodeResponseURLParams,
+  encodeRequestURLParams,
+} from '../components/communication/utils/encoding';
+import { MWPClient } from '../MWPClient';
+import { MockWallet } from './MockWallet';
+import { exportKeyToHexString, generateKeyPair } from ':core/cipher/cipher';
+import { standardErrorCodes } from ':core/error';
+import { RPCRequestMessage } from ':core/message';
+import { InMemoryStorage } from ':core/storage/InMemoryStorage';
+import { ScopedPreferencesStorage } from ':core/storage/ScopedPreferencesStorage';
+
+const mockAccounts = ['0x742d35cc6634c0532925a3b844bc454e4438f44e'];
+const mockChains = {
+  1: 'https://eth-rpc.example.com/1',
+  8453: 'https://eth-rpc.example.com/8453',
+};
+
+describe('MockWallet', () => {
+  let mockWallet: MockWallet;
+  let client: MWPClient;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    mockWallet = new MockWallet({
+      accounts: mockAccounts,
+      chains: mockChains,
+      handlers: {
+        personal_sign: (action) => `signed:${(action.params as string[])[0]}`,
+      },
+    });
+    client = await MWPClient.createInstance({
+      metadata: { name: 'Test App', chainIds: [1, 8453], customScheme: 'myapp://' },
+      wallet: mockWallet.wallet,
+      transport: mockWallet,
+    });
+  });
+
+  it('should complete the handshake', async () => {
+    await expect(client.handshake()).resolves.toEqual(mockAccounts);
+    expect(mockWallet.receivedActions).toEqual([
+      expect.objectContaining({ method: 'eth_requestAccounts' }),
+    ]);
+  });
+
+  it('should answer scripted methods over the encrypted channel', async () => {
+    await client.handshake();
+
+    await expect(
+      client.request({ method: 'personal_sign', params: ['0xMessage', mockAccounts[0]] })
+    ).resolves.toEqual('signed:0xMessage');
+  });
+
+  it('should pass the active chain to handlers', async () => {
+    const handler = jest.fn().mockReturnValue('0xHash');
+    mockWallet.setHandler('eth_sendTransaction', handler);
+    await client.handshake();
+    await client.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x2105' }] });
+
+    await client.request({ method: 'eth_sendTransaction', params: [{}] });
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'eth_sendTransaction' }),
+      8453
+    );
+  });
+
+  it('should switch to chains shared by the wallet', async () => {
+    await client.handshake();
+
+    await expect(
+      client.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x2105' }] })
+    ).resolves.toBeNull();
+    await expect(client.request({ method: 'eth_chainId' })).resolves.toEqual('0x2105');
+  });
+
+  it('should report chain switches as state changes', async () => {
+    const listener = jest.fn();
+    client.onStateChange(listener);
+    await client.handshake();
+
+    await client.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x2105' }] });
+
+    expect(listener).toHaveBeenLastCalledWith({ accounts: mockAccounts, chainId: 8453 });
+  });
+
+  it('should reject switching to chains the wallet does not know', async () => {
+    await client.handshake();
+
+    await expect(
+      client.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x5' }] })
+    ).rejects.toMatchObject({ code: standardErrorCodes.provider.unsupportedChain });
+  });
+
+  it('should end on a chain the wallet added after rejecting the switch', async () => {
+    mockWallet.setHandler('wallet_addEthereumChain', () => null);
+    const optimismClient = await MWPClient.createInstance({
+      metadata: { name: 'Test App', chainIds: [1, 8453, 10], customScheme: 'myapp://' },
+      wallet: mockWallet.wallet,
+      transport: mockWallet,
+    });
+    const listener = jest.fn();
+    optimismClient.onStateChange(listener);
+    await optimismClient.handshake();
+
+    await expect(
+      optimismClient.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0xa' }] })
+    ).rejects.toMatchObject({ code: standardErrorCodes.provider.unsupportedChain });
+    await optimismClient.request({
+      method: 'wallet_addEthereumChain',
+      params: [{ chainId: '0xa', rpcUrls: ['https://optimism.example.com'] }],
+    });
+
+    await expect(optimismClient.request({ method: 'eth_chainId' })).resolves.toEqual('0xa');
+    expect(listener).toHaveBeenLastCalledWith({ accounts: mockAccounts, chainId: 10 });
+  });
+
+  it('should reject methods without a handler', async () => {
+    await client.handshake();
+
+    await expect(
+      client.request({ method: 'eth_signTypedData_v4', params: [] })
+    ).rejects.toMatchObject({ code: standardErrorCodes.provider.unsupportedMethod });
+  });
+
+  it('should surface handler errors as RPC errors', async () => {
+    mockWallet.setHandler('personal_sign', () => {
+      throw new Error('nope');
+    });
+    await client.handshake();
+
+    await expect(
+      client.request({ method: 'personal_sign', params: ['0xMessage', mockAccounts[0]] })
+    ).rejects.toMatchObject({ message: 'nope' });
+  });
+
+  it('should keep client state and keys in the given storage', async () => {
+    const storage = new InMemoryStorage(mockWallet.wallet.name, 'MWPClient');
+    const inMemoryClient = await MWPClient.createInstance({
+      metadata: { name: 'Test App', chainIds: [1], customScheme: 'myapp://' },
+      wallet: mockWallet.wallet,
+      transport: mockWallet,
+      storage,
+    });
+
+    await inMemoryClient.handshake();
+
+    expect(await storage.loadObject('accounts')).toEqual(mockAccounts);
+    expect(await storage.getItem('ownPrivateKey')).not.toBeNull();
+    const preferences = new ScopedPreferencesStorage(mockWallet.wallet.name, 'MWPClient');
+    expect(await preferences.loadObject('accounts')).toBeUndefined();
+  });
+
+  it('should answer request URLs with a callback URL the app can decode', async () => {
+    const { publicKey } = await generateKeyPair();
+    const request: RPCRequestMessage = {
+      id: crypto.randomUUID(),
+      sender: await exportKeyToHexString('public', publicKey),
+      sdkVersion: '1.0.0',
+      callbackUrl: 'myapp://mobile-wallet-protocol',
+      timestamp: new Date(),
+      content: {
+        handshake: { method: 'eth_requestAccounts', params: { appName: 'Test App' } },
+      },
+    };
+    const requestUrl = new URL(mockWallet.wallet.scheme);
+    requestUrl.search = encodeRequestURLParams(request);
+
+    const callbackUrl = await mockWallet.handleRequestURL(requestUrl.toString());
+
+    expect(callbackUrl).toMatch(/^myapp:\/\/mobile-wallet-protocol\?/);
+    const response = decodeResponseURLParams(new URL(callbackUrl).searchParams);
+    expect(response.requestId).toEqual(request.id);
+    expect(response.content).toHaveProperty('encrypted');
+  });
+});
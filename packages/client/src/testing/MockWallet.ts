@@ -0,0 +1,187 @@
+import {
+  decodeRequestURLParams,
+  decodeResponseURLParams,
+  encodeRequestURLParams,
+  encodeResponseURLParams,
+} from '../components/communication/utils/encoding';
+import { WalletTransport } from '../components/communication/WalletTransport';
+import {
+  decryptContent,
+  deriveSharedSecret,
+  encryptContent,
+  exportKeyToHexString,
+  generateKeyPair,
+  importKeyFromHexString,
+} from ':core/cipher/cipher';
+import { CryptoKey, CryptoKeyPair } from ':core/cipher/types';
+import { standardErrors } from ':core/error';
+import { serializeError } from ':core/error/serialize';
+import { RPCRequest, RPCRequestMessage, RPCResponse, RPCResponseMessage } from ':core/message';
+import { RequestArguments } from ':core/provider/interface';
+import { ensureIntNumber } from ':core/type/util';
+import { Wallet } from ':core/wallet';
+
+/**
+ * Answers a single RPC action on behalf of the mock wallet.
+ * The returned value becomes the result; a thrown error becomes the RPC error.
+ */
+export type MockWalletHandler = (action: RequestArguments, chainId: number) => unknown;
+
+export type MockWalletOptions = {
+  accounts: string[];
+  /**
+   * Chains shared with the app, keyed by chain id with their RPC URL.
+   */
+  chains?: Record<number, string>;
+  capabilities?: Record<`0x${string}`, Record<string, unknown>>;
+  handlers?: Record<string, MockWalletHandler>;
+  name?: string;
+  scheme?: string;
+};
+
+/**
+ * In-process stand-in for a Mobile Wallet Protocol wallet, for deterministic tests.
+ *
+ * Pass `mockWallet.wallet` and `mockWallet` itself as `wallet` and `transport` to
+ * `MWPClient.createInstance`. Requests go through the same URL encoding a real wallet
+ * receives, the handshake derives a real shared secret, and responses come back as
+ * callback URLs.
+ */
+export class MockWallet implements WalletTransport {
+  readonly wallet: Wallet;
+  /**
+   * Every action the wallet received, in order, including the handshake.
+   */
+  readonly receivedActions: RequestArguments[] = [];
+
+  private readonly accounts: string[];
+  private readonly chains?: Record<number, string>;
+  private readonly capabilities?: Record<`0x${string}`, Record<string, unknown>>;
+  private readonly handlers: Record<string, MockWalletHandler>;
+  private keyPair: CryptoKeyPair | null = null;
+  private readonly sessions = new Map<string, CryptoKey>();
+
+  constructor({ accounts, chains, capabilities, handlers, name, scheme }: MockWalletOptions) {
+    this.wallet = {
+      type: 'web',
+      name: name ?? 'Mock Wallet',
+      scheme: scheme ?? 'https://wallet.example.com/connect',
+    };
+    this.accounts = accounts;
+    this.chains = chains;
+    this.capabilities = capabilities;
+    this.handlers = {
+      wallet_switchEthereumChain: (action) => this.switchChain(action),
+      ...handlers,
+    };
+  }
+
+  /**
+   * Scripts the answer for an RPC method, replacing any previous handler.
+   */
+  setHandler(method: string, handler: MockWalletHandler) {
+    this.handlers[method] = handler;
+  }
+
+  async send(request: RPCRequestMessage): Promise<RPCResponseMessage> {
+    const requestUrl = new URL(this.wallet.scheme);
+    requestUrl.search = encodeRequestURLParams(request);
+
+    const callbackUrl = await this.handleRequestURL(requestUrl.toString());
+    return decodeResponseURLParams(new URL(callbackUrl).searchParams);
+  }
+
+  /**
+   * Handles a request URL as opened by the app and returns the callback URL
+   * the wallet would open in response.
+   */
+  async handleRequestURL(url: string): Promise<string> {
+    const request = decodeRequestURLParams(new URL(url).searchParams);
+    const response = await this.handleRequest(request);
+
+    const callbackUrl = new URL(request.callbackUrl);
+    callbackUrl.search = encodeResponseURLParams(response);
+    return callbackUrl.toString();
+  }
+
+  private async handleRequest(request: RPCRequestMessage): Promise<RPCResponseMessage> {
+    const { privateKey, publicKey } = await this.getKeyPair();
+    const sender = await exportKeyToHexString('public', publicKey);
+    const reply = (content: RPCResponseMessage['content']): RPCResponseMessage => ({
+      id: crypto.randomUUID(),
+      requestId: request.id,
+      sender,
+      content,
+      timestamp: new Date(),
+    });
+
+    if ('handshake' in request.content) {
+      const peerPublicKey = await importKeyFromHexString('public', request.sender);
+      const sharedSecret = await deriveSharedSecret(privateKey, peerPublicKey);
+      this.sessions.set(request.sender, sharedSecret);
+      this.receivedActions.push(request.content.handshake);
+
+      const encrypted = await encryptContent(
+        this.createResponse({ value: this.accounts }),
+        sharedSecret
+      );
+      return reply({ encrypted });
+    }
+
+    const sharedSecret = this.sessions.get(request.sender);
+    if (!sharedSecret) {
+      return reply({
+        failure: serializeError(standardErrors.provider.unauthorized('Unknown session')),
+      });
+    }
+
+    const { action, chainId } = await decryptContent<RPCRequest>(
+      request.content.encrypted,
+      sharedSecret
+    );
+    this.receivedActions.push(action);
+
+    const encrypted = await encryptContent(await this.handleAction(action, chainId), sharedSecret);
+    return reply({ encrypted });
+  }
+
+  private async handleAction(action: RequestArguments, chainId: number): Promise<RPCResponse> {
+    const handler = this.handlers[action.method];
+    if (!handler) {
+      return {
+        result: { error: serializeError(standardErrors.provider.unsupportedMethod()) },
+      };
+    }
+
+    try {
+      return this.createResponse({ value: await handler(action, chainId) });
+    } catch (error) {
+      return { result: { error: serializeError(error) } };
+    }
+  }
+
+  private createResponse(result: RPCResponse['result']): RPCResponse {
+    return {
+      result,
+      data: {
+        ...(this.chains ? { chains: this.chains } : {}),
+        ...(this.capabilities ? { capabilities: this.capabilities } : {}),
+      },
+    };
+  }
+
+  private switchChain(action: RequestArguments) {
+    const [{ chainId }] = action.params as [{ chainId: `0x${string}` }];
+    if (this.chains && !(ensureIntNumber(chainId) in this.chains)) {
+      throw standardErrors.provider.unsupportedChain();
+    }
+    return null;
+  }
+
+  private async getKeyPair(): Promise<CryptoKeyPair> {
+    if (!this.keyPair) {
+      this.keyPair = await generateKeyPair();
+    }
+    return this.keyPair;
+  }
+}